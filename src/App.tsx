@@ -2,39 +2,104 @@ import { useState, useCallback, useEffect } from 'react';
 import { GuestList } from '@/components/GuestList';
 import { Canvas } from '@/components/Canvas';
 import { TableConfigPanel } from '@/components/TableConfigPanel';
-import { useSeatingStore } from '@/hooks/useSeatingStore';
+import { VenueObjectPanel } from '@/components/VenueObjectPanel';
+import { CateringReportDialog } from '@/components/CateringReportDialog';
+import { PlaceCardsDialog } from '@/components/PlaceCardsDialog';
+import { EscortListDialog } from '@/components/EscortListDialog';
+import { EventSwitcher } from '@/components/EventSwitcher';
+import { TableReportDialog } from '@/components/TableReportDialog';
+import { useSeatingStore, selectLayout, type ImportMode } from '@/hooks/useSeatingStore';
+import { downloadLayoutFile, parseLayoutFile } from '@/lib/layoutSchema';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
   DialogContent,
+  DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Users, LayoutGrid, Settings, Download, Upload, Trash2, Eye } from 'lucide-react';
 import { toast } from 'sonner';
-import type { Guest } from '@/types';
+import type { Guest, LengthUnit, NameOrderSetting, SeatingLayout } from '@/types';
+import { nameOrderLabels } from '@/lib/guestNames';
+import { lengthUnitLabels } from '@/lib/units';
+import { LengthInput } from '@/components/LengthInput';
+
+interface PendingImport {
+  layout: SeatingLayout;
+  repairs: number;
+  fileName: string;
+}
 
 function App() {
-  const [selectedTableId, setSelectedTableId] = useState<string | null>(null);
+  const [selectedTableIds, setSelectedTableIds] = useState<string[]>([]);
+  const [selectedObjectId, setSelectedObjectId] = useState<string | null>(null);
   const [draggedGuest, setDraggedGuest] = useState<Guest | null>(null);
   const [showAllTooltips, setShowAllTooltips] = useState(false);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
   
   const { 
     tables, 
+    venueObjects,
     guests, 
+    groups,
     unassignedGuests, 
     addGuest, 
     removeGuest, 
     importGuests, 
+    importLayout,
     clearLayout, 
     resetAll,
+    undo,
+    redo,
     assignGuestToSeat,
     moveGuestBetweenSeats,
+    seatGroupAtTable,
+    seatCompanionsNear,
+    settings,
+    setExcludeDeclined,
+    setNameOrder,
+    setMeasurementSettings,
+    removeVenueObject,
   } = useSeatingStore();
 
-  const selectedTable = tables.find((t) => t.id === selectedTableId) || null;
+  const selectedTables = tables.filter((t) => selectedTableIds.includes(t.id));
+  const selectedObject = venueObjects.find((o) => o.id === selectedObjectId) ?? null;
+
+  // Tables and venue objects are never selected together
+  const selectTables = (tableIds: string[]) => {
+    setSelectedTableIds(tableIds);
+    setSelectedObjectId(null);
+  };
+
+  const selectObject = (objectId: string | null) => {
+    setSelectedObjectId(objectId);
+    setSelectedTableIds([]);
+  };
+
+  const configPanel = selectedObject ? (
+    <VenueObjectPanel
+      object={selectedObject}
+      onDelete={() => {
+        removeVenueObject(selectedObject.id);
+        selectObject(null);
+      }}
+    />
+  ) : (
+    <TableConfigPanel tables={selectedTables} />
+  );
 
   // Handle drag start from guest list - only set draggedGuest for drop detection
   const handleGuestDragStart = useCallback((guest: Guest) => {
@@ -60,10 +125,66 @@ function App() {
     };
   }, []);
 
+  // Undo/redo hotkeys: Ctrl+Z, Ctrl+Shift+Z (and Ctrl+Y)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      // Keep native undo inside text fields
+      if (target.closest('input, textarea, [contenteditable="true"]')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // After seating a primary guest, offer to put their unseated companions next to them
+  const offerCompanionSeating = useCallback((guestId: string) => {
+    const waiting = guests.filter((g) => g.companionOf === guestId && unassignedGuests.includes(g.id));
+    if (waiting.length === 0) return;
+
+    toast(`Спутников без места: ${waiting.length}`, {
+      description: 'Посадить их на соседние свободные места?',
+      action: {
+        label: 'Посадить рядом',
+        onClick: () => {
+          const { seated, notSeated } = seatCompanionsNear(guestId);
+          if (notSeated > 0) {
+            toast.warning(`Рядом не хватило мест: ${notSeated}`, {
+              description: seated > 0 ? `Рассажено спутников: ${seated}` : undefined,
+            });
+          } else {
+            toast.success('Спутники рассажены');
+          }
+        },
+      },
+    });
+  }, [guests, unassignedGuests, seatCompanionsNear]);
+
   // Handle drop on seat
   const handleDropOnSeat = useCallback((guestId: string, tableId: string, seatId: string) => {
     const guest = guests.find(g => g.id === guestId);
     if (!guest) return;
+
+    if (guest.rsvp === 'declined') {
+      if (settings.excludeDeclined) {
+        toast.error('Гость отказался от приглашения', {
+          description: 'Отказавшиеся гости не рассаживаются — см. настройки плана',
+        });
+        setDraggedGuest(null);
+        return;
+      }
+      toast.warning('Гость отказался от приглашения, но занимает место');
+    }
     
     // Check if guest is already assigned to a seat
     const isAssigned = !unassignedGuests.includes(guestId);
@@ -75,6 +196,7 @@ function App() {
           if (seat.guestId === guestId) {
             moveGuestBetweenSeats(guestId, table.id, seat.id, tableId, seatId);
             toast.success('Гость перемещён');
+            offerCompanionSeating(guestId);
             setDraggedGuest(null);
             return;
           }
@@ -84,44 +206,80 @@ function App() {
       // Assign new guest
       assignGuestToSeat(guestId, tableId, seatId);
       toast.success('Гость назначен на место');
+      offerCompanionSeating(guestId);
     }
     setDraggedGuest(null);
-  }, [assignGuestToSeat, moveGuestBetweenSeats, guests, unassignedGuests, tables]);
+  }, [assignGuestToSeat, moveGuestBetweenSeats, offerCompanionSeating, guests, unassignedGuests, tables, settings.excludeDeclined]);
+
+  // Handle drop of a whole group on a seat: members take adjacent free seats
+  const handleDropGroup = useCallback((groupId: string, tableId: string, seatId: string) => {
+    const { seated, notSeated } = seatGroupAtTable(groupId, tableId, seatId);
+    if (notSeated > 0) {
+      toast.warning(`Не хватило свободных мест: ${notSeated}`, {
+        description: seated > 0 ? `Рассажено членов группы: ${seated}` : undefined,
+      });
+    } else if (seated > 0) {
+      toast.success('Группа рассажена');
+    }
+    setDraggedGuest(null);
+  }, [seatGroupAtTable]);
 
   const handleExport = () => {
-    const data = {
-      tables,
-      guests,
-      unassignedGuests,
-      exportDate: new Date().toISOString(),
-    };
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `seating-plan-${new Date().toISOString().split('T')[0]}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadLayoutFile(selectLayout(useSeatingStore.getState()));
     toast.success('План рассадки экспортирован');
   };
 
   const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    // Allow picking the same file again after a failed or cancelled import
+    event.target.value = '';
     if (file) {
       const reader = new FileReader();
       reader.onload = (e) => {
+        let data: unknown;
         try {
-          const json = e.target?.result as string;
-          JSON.parse(json);
-          toast.success('План рассадки импортирован');
+          data = JSON.parse(e.target?.result as string);
         } catch {
-          toast.error('Ошибка импорта файла');
+          toast.error('Ошибка импорта файла', { description: 'Файл не является корректным JSON' });
+          return;
+        }
+
+        const result = parseLayoutFile(data);
+        if (!result.success) {
+          const shownErrors = result.errors.slice(0, 5);
+          const hiddenCount = result.errors.length - shownErrors.length;
+          toast.error('Файл плана рассадки повреждён', {
+            description: (
+              <div className="space-y-0.5">
+                {shownErrors.map((error) => <p key={error}>{error}</p>)}
+                {hiddenCount > 0 && <p>…и ещё {hiddenCount}</p>}
+              </div>
+            ),
+          });
+          return;
         }
+
+        setPendingImport({ layout: result.layout, repairs: result.repairs, fileName: file.name });
       };
       reader.readAsText(file);
     }
   };
 
+  const handleConfirmImport = (mode: ImportMode) => {
+    if (!pendingImport) return;
+
+    importLayout(pendingImport.layout, mode);
+    if (mode !== 'merge') {
+      selectTables([]);
+    }
+    toast.success('План рассадки импортирован', {
+      description: pendingImport.repairs > 0
+        ? `Исправлено некорректных назначений: ${pendingImport.repairs}`
+        : undefined,
+    });
+    setPendingImport(null);
+  };
+
   return (
     <div className="h-screen flex flex-col bg-background">
       {/* Header */}
@@ -131,6 +289,8 @@ function App() {
             <LayoutGrid className="w-4 h-4 text-primary-foreground" />
           </div>
           <h1 className="font-semibold text-lg">Seating Planner</h1>
+          <div className="w-px h-6 bg-border" />
+          <EventSwitcher onSwitch={() => selectTables([])} />
         </div>
 
         <div className="flex items-center gap-2">
@@ -153,6 +313,10 @@ function App() {
             <Download className="w-4 h-4" />
             Экспорт
           </Button>
+          <CateringReportDialog />
+          <TableReportDialog />
+          <PlaceCardsDialog />
+          <EscortListDialog />
 
           <Dialog>
             <DialogTrigger asChild>
@@ -165,6 +329,67 @@ function App() {
                 <DialogTitle>Настройки</DialogTitle>
               </DialogHeader>
               <div className="space-y-4 pt-4">
+                <div className="flex items-center justify-between gap-4 p-3 bg-muted rounded-lg">
+                  <div>
+                    <Label htmlFor="exclude-declined" className="font-medium">Не рассаживать отказавшихся</Label>
+                    <p className="text-sm text-muted-foreground">Гости со статусом «Отказался» освобождают места</p>
+                  </div>
+                  <Switch
+                    id="exclude-declined"
+                    checked={settings.excludeDeclined}
+                    onCheckedChange={setExcludeDeclined}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between gap-4 p-3 bg-muted rounded-lg">
+                  <div>
+                    <Label className="font-medium">Порядок имени</Label>
+                    <p className="text-sm text-muted-foreground">Как читать ФИО при добавлении и импорте</p>
+                  </div>
+                  <Select value={settings.nameOrder} onValueChange={(v) => setNameOrder(v as NameOrderSetting)}>
+                    <SelectTrigger className="w-56 bg-background">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(nameOrderLabels) as NameOrderSetting[]).map((order) => (
+                        <SelectItem key={order} value={order}>{nameOrderLabels[order]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex items-center justify-between gap-4 p-3 bg-muted rounded-lg">
+                  <div>
+                    <Label className="font-medium">Единицы измерения</Label>
+                    <p className="text-sm text-muted-foreground">Размеры столов, объектов и зала</p>
+                  </div>
+                  <Select value={settings.lengthUnit} onValueChange={(v) => setMeasurementSettings({ lengthUnit: v as LengthUnit })}>
+                    <SelectTrigger className="w-56 bg-background">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(lengthUnitLabels) as LengthUnit[]).map((unit) => (
+                        <SelectItem key={unit} value={unit}>{lengthUnitLabels[unit]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex items-center justify-between gap-4 p-3 bg-muted rounded-lg">
+                  <div>
+                    <Label htmlFor="min-clearance" className="font-medium">Минимальный проход</Label>
+                    <p className="text-sm text-muted-foreground">Свободное место между стульями соседних столов</p>
+                  </div>
+                  <div className="w-32 bg-background rounded-md">
+                    <LengthInput
+                      id="min-clearance"
+                      value={settings.minClearance}
+                      min={0}
+                      onChange={(minClearance) => setMeasurementSettings({ minClearance })}
+                    />
+                  </div>
+                </div>
+
                 <div className="flex items-center justify-between p-3 bg-muted rounded-lg">
                   <div>
                     <p className="font-medium">Очистить рассадку</p>
@@ -175,7 +400,7 @@ function App() {
                     size="sm"
                     onClick={() => {
                       clearLayout();
-                      toast.success('Рассадка очищена');
+                      toast.success('Рассадка очищена', { action: { label: 'Отменить', onClick: undo } });
                     }}
                   >
                     <Trash2 className="w-4 h-4" />
@@ -192,7 +417,8 @@ function App() {
                     size="sm"
                     onClick={() => {
                       resetAll();
-                      toast.success('Все данные удалены');
+                      selectTables([]);
+                      toast.success('Все данные удалены', { action: { label: 'Отменить', onClick: undo } });
                     }}
                   >
                     <Trash2 className="w-4 h-4" />
@@ -210,6 +436,7 @@ function App() {
         <div className="w-80 flex-shrink-0 border-r hidden lg:block">
           <GuestList
             guests={guests}
+            groups={groups}
             unassignedGuests={unassignedGuests}
             onAddGuest={addGuest}
             onRemoveGuest={removeGuest}
@@ -223,9 +450,12 @@ function App() {
           <Canvas
             tables={tables}
             guests={guests}
-            selectedTableId={selectedTableId}
-            onSelectTable={setSelectedTableId}
+            selectedTableIds={selectedTableIds}
+            onSelectTables={selectTables}
+            selectedObjectId={selectedObjectId}
+            onSelectObject={selectObject}
             onDropOnSeat={handleDropOnSeat}
+            onDropGroup={handleDropGroup}
             draggedGuest={draggedGuest}
             showAllTooltips={showAllTooltips}
           />
@@ -233,7 +463,7 @@ function App() {
 
         {/* Right Sidebar - Table Config */}
         <div className="w-72 flex-shrink-0 border-l hidden xl:block bg-card">
-          <TableConfigPanel table={selectedTable} />
+          {configPanel}
         </div>
       </div>
 
@@ -258,6 +488,7 @@ function App() {
             <div className="h-[300px]">
               <GuestList
                 guests={guests}
+                groups={groups}
                 unassignedGuests={unassignedGuests}
                 onAddGuest={addGuest}
                 onRemoveGuest={removeGuest}
@@ -271,9 +502,12 @@ function App() {
               <Canvas
                 tables={tables}
                 guests={guests}
-                selectedTableId={selectedTableId}
-                onSelectTable={setSelectedTableId}
+                selectedTableIds={selectedTableIds}
+                onSelectTables={selectTables}
+                selectedObjectId={selectedObjectId}
+                onSelectObject={selectObject}
                 onDropOnSeat={handleDropOnSeat}
+                onDropGroup={handleDropGroup}
                 draggedGuest={draggedGuest}
                 showAllTooltips={showAllTooltips}
               />
@@ -281,12 +515,50 @@ function App() {
           </TabsContent>
           <TabsContent value="config" className="m-0">
             <div className="h-[300px]">
-              <TableConfigPanel table={selectedTable} />
+              {configPanel}
             </div>
           </TabsContent>
         </Tabs>
       </div>
 
+      {/* Import mode confirmation */}
+      <Dialog open={!!pendingImport} onOpenChange={(open) => !open && setPendingImport(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Импорт плана рассадки</DialogTitle>
+            <DialogDescription>{pendingImport?.fileName}</DialogDescription>
+          </DialogHeader>
+          {pendingImport && (
+            <div className="space-y-2 text-sm">
+              <p>
+                Столов: <span className="font-medium">{pendingImport.layout.tables.length}</span>,
+                гостей: <span className="font-medium">{pendingImport.layout.guests.length}</span>
+              </p>
+              {pendingImport.repairs > 0 && (
+                <p className="text-muted-foreground">
+                  Найдено и будет исправлено некорректных назначений: {pendingImport.repairs}
+                </p>
+              )}
+              <p className="text-muted-foreground">
+                «Заменить» удалит текущий план. «Объединить» добавит столы и гостей из файла к текущему плану.
+                «Новое мероприятие» откроет файл отдельно, не трогая текущий план.
+              </p>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => handleConfirmImport('new-event')}>
+              Новое мероприятие
+            </Button>
+            <Button variant="outline" onClick={() => handleConfirmImport('merge')}>
+              Объединить
+            </Button>
+            <Button variant="destructive" onClick={() => handleConfirmImport('replace')}>
+              Заменить
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Floating toggle button for tooltips */}
       <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50">
         <Button
@@ -0,0 +1,261 @@
+import { useState } from 'react';
+import type { SeatingConstraint } from '@/types';
+import { useSeatingStore } from '@/hooks/useSeatingStore';
+import type { AutoSeatResult } from '@/lib/autoSeat';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Wand2, Trash2, Plus, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface AutoSeatDialogProps {
+  selectedTableIds: string[];
+}
+
+type ConstraintType = SeatingConstraint['type'];
+
+const constraintTypeLabels: Record<ConstraintType, string> = {
+  together: 'Сидеть вместе',
+  apart: 'Сидеть отдельно',
+  pin: 'Закрепить за столом',
+};
+
+export function AutoSeatDialog({ selectedTableIds }: AutoSeatDialogProps) {
+  const { tables, guests, unassignedGuests, constraints, addConstraint, removeConstraint, autoSeat } = useSeatingStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [tableIds, setTableIds] = useState<string[]>([]);
+  const [balance, setBalance] = useState(true);
+  const [result, setResult] = useState<AutoSeatResult | null>(null);
+
+  const [newType, setNewType] = useState<ConstraintType>('together');
+  const [togetherIds, setTogetherIds] = useState<string[]>([]);
+  const [firstGuestId, setFirstGuestId] = useState('');
+  const [secondGuestId, setSecondGuestId] = useState('');
+  const [pinTableId, setPinTableId] = useState('');
+
+  const guestName = (guestId: string) => guests.find((g) => g.id === guestId)?.fullName || '—';
+  const tableName = (tableId: string) => tables.find((t) => t.id === tableId)?.name || '—';
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      // Run on the selected tables only when some are selected, otherwise on all tables
+      setTableIds(selectedTableIds.length > 0 ? selectedTableIds : tables.map((t) => t.id));
+      setResult(null);
+    }
+  };
+
+  const toggleId = (ids: string[], id: string) =>
+    ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id];
+
+  const describeConstraint = (constraint: SeatingConstraint): string => {
+    switch (constraint.type) {
+      case 'together':
+        return constraint.guestIds.map(guestName).join(', ');
+      case 'apart':
+        return `${guestName(constraint.guestIds[0])} ≠ ${guestName(constraint.guestIds[1])}`;
+      case 'pin':
+        return `${guestName(constraint.guestId)} → ${tableName(constraint.tableId)}`;
+    }
+  };
+
+  const canAddConstraint =
+    (newType === 'together' && togetherIds.length >= 2) ||
+    (newType === 'apart' && firstGuestId && secondGuestId && firstGuestId !== secondGuestId) ||
+    (newType === 'pin' && firstGuestId && pinTableId);
+
+  const handleAddConstraint = () => {
+    if (newType === 'together') {
+      addConstraint({ type: 'together', guestIds: togetherIds });
+    } else if (newType === 'apart') {
+      addConstraint({ type: 'apart', guestIds: [firstGuestId, secondGuestId] });
+    } else {
+      addConstraint({ type: 'pin', guestId: firstGuestId, tableId: pinTableId });
+    }
+    setTogetherIds([]);
+    setFirstGuestId('');
+    setSecondGuestId('');
+    setPinTableId('');
+  };
+
+  const handleRun = () => {
+    const seatResult = autoSeat({ tableIds, balance });
+    setResult(seatResult);
+    if (seatResult.assignments.length > 0) {
+      toast.success(`Рассажено гостей: ${seatResult.assignments.length}`);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2" disabled={tables.length === 0}>
+          <Wand2 className="w-4 h-4" />
+          Авторассадка
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Автоматическая рассадка</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-5 pt-2">
+          {/* Tables */}
+          <div className="space-y-2">
+            <Label>Столы ({tableIds.length} из {tables.length})</Label>
+            <div className="max-h-32 overflow-auto space-y-1 rounded-lg border p-2">
+              {tables.map((table) => (
+                <label key={table.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={tableIds.includes(table.id)}
+                    onCheckedChange={() => setTableIds(toggleId(tableIds, table.id))}
+                  />
+                  <span className="flex-1 truncate">{table.name}</span>
+                  <span className="text-xs text-muted-foreground">
+                    свободно {table.seats.filter((s) => !s.guestId).length}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="auto-seat-balance">Заполнять столы равномерно</Label>
+            <Switch id="auto-seat-balance" checked={balance} onCheckedChange={setBalance} />
+          </div>
+
+          {/* Constraints */}
+          <div className="space-y-2">
+            <Label>Правила рассадки</Label>
+            {constraints.length === 0 ? (
+              <p className="text-xs text-muted-foreground">Правил пока нет</p>
+            ) : (
+              <div className="space-y-1">
+                {constraints.map((constraint) => (
+                  <div key={constraint.id} className="flex items-center gap-2 p-2 bg-muted/50 rounded text-sm">
+                    <span className="text-xs text-muted-foreground w-32 flex-shrink-0">
+                      {constraintTypeLabels[constraint.type]}
+                    </span>
+                    <span className="flex-1 truncate" title={describeConstraint(constraint)}>
+                      {describeConstraint(constraint)}
+                    </span>
+                    <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => removeConstraint(constraint.id)}>
+                      <Trash2 className="w-3 h-3 text-destructive" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="rounded-lg border p-3 space-y-2">
+              <Select value={newType} onValueChange={(v) => setNewType(v as ConstraintType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="together">{constraintTypeLabels.together}</SelectItem>
+                  <SelectItem value="apart">{constraintTypeLabels.apart}</SelectItem>
+                  <SelectItem value="pin">{constraintTypeLabels.pin}</SelectItem>
+                </SelectContent>
+              </Select>
+
+              {newType === 'together' ? (
+                <div className="max-h-32 overflow-auto space-y-1">
+                  {guests.map((guest) => (
+                    <label key={guest.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={togetherIds.includes(guest.id)}
+                        onCheckedChange={() => setTogetherIds(toggleId(togetherIds, guest.id))}
+                      />
+                      <span className="truncate">{guest.fullName}</span>
+                    </label>
+                  ))}
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 gap-2">
+                  <Select value={firstGuestId} onValueChange={setFirstGuestId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Гость" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {guests.map((guest) => (
+                        <SelectItem key={guest.id} value={guest.id}>{guest.fullName}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {newType === 'apart' ? (
+                    <Select value={secondGuestId} onValueChange={setSecondGuestId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Гость" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {guests.filter((g) => g.id !== firstGuestId).map((guest) => (
+                          <SelectItem key={guest.id} value={guest.id}>{guest.fullName}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Select value={pinTableId} onValueChange={setPinTableId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Стол" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {tables.map((table) => (
+                          <SelectItem key={table.id} value={table.id}>{table.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              )}
+
+              <Button variant="outline" size="sm" className="w-full gap-2" disabled={!canAddConstraint} onClick={handleAddConstraint}>
+                <Plus className="w-4 h-4" />
+                Добавить правило
+              </Button>
+            </div>
+          </div>
+
+          <Button
+            className="w-full gap-2"
+            onClick={handleRun}
+            disabled={tableIds.length === 0 || unassignedGuests.length === 0}
+          >
+            <Wand2 className="w-4 h-4" />
+            Рассадить ({unassignedGuests.length} не распределены)
+          </Button>
+
+          {/* Report */}
+          {result && (
+            <div className="space-y-2 rounded-lg bg-muted p-3 text-sm">
+              <p className="flex items-center gap-2 font-medium">
+                <CheckCircle2 className="w-4 h-4 text-primary" />
+                Рассажено: {result.assignments.length}
+              </p>
+              {result.issues.map((issue, index) => (
+                <p key={index} className="flex items-start gap-2 text-muted-foreground">
+                  <AlertTriangle className="w-4 h-4 text-destructive flex-shrink-0 mt-0.5" />
+                  {issue.message}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
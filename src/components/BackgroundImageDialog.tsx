@@ -0,0 +1,150 @@
+import { useRef, useState } from 'react';
+import { useSeatingStore } from '@/hooks/useSeatingStore';
+import { BACKGROUND_IMAGE_ACCEPT, createBackgroundImage, readBackgroundImageFile } from '@/lib/backgroundImage';
+import type { Point } from '@/lib/tableGeometry';
+import { formatSize } from '@/lib/units';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { LengthInput } from '@/components/LengthInput';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { ImageIcon, Ruler, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface BackgroundImageDialogProps {
+  getViewCenter: () => Point; // Where a newly loaded image is placed
+  onCalibrate: () => void;
+}
+
+export function BackgroundImageDialog({ getViewCenter, onCalibrate }: BackgroundImageDialogProps) {
+  const backgroundImage = useSeatingStore((state) => state.backgroundImage);
+  const setBackgroundImage = useSeatingStore((state) => state.setBackgroundImage);
+  const updateBackgroundImage = useSeatingStore((state) => state.updateBackgroundImage);
+  const lengthUnit = useSeatingStore((state) => state.settings.lengthUnit);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsLoading(true);
+    try {
+      const { src, widthPx, heightPx } = await readBackgroundImageFile(file);
+      setBackgroundImage(createBackgroundImage(src, widthPx, heightPx, getViewCenter()));
+      toast.success('Подложка загружена', { description: 'Откалибруйте масштаб по известному размеру зала' });
+    } catch (error) {
+      toast.error('Не удалось загрузить подложку', { description: error instanceof Error ? error.message : undefined });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCalibrate = () => {
+    setIsOpen(false);
+    onCalibrate();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant={backgroundImage ? 'secondary' : 'outline'} size="sm" className="gap-2">
+          <ImageIcon className="w-4 h-4" />
+          Подложка
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>План зала</DialogTitle>
+          <DialogDescription>
+            Изображение плана от ресторана под столами. Оно закреплено и сохраняется вместе с планом рассадки
+          </DialogDescription>
+        </DialogHeader>
+
+        <input ref={fileInputRef} type="file" accept={BACKGROUND_IMAGE_ACCEPT} className="hidden" onChange={handleFile} />
+
+        {!backgroundImage ? (
+          <Button variant="outline" className="gap-2" disabled={isLoading} onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-4 h-4" />
+            {isLoading ? 'Загрузка…' : 'Загрузить PNG, JPEG или PDF'}
+          </Button>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex gap-3 items-start">
+              <img src={backgroundImage.src} alt="План зала" className="w-32 h-24 object-contain border rounded bg-muted" />
+              <div className="text-sm space-y-1">
+                <p>{formatSize(backgroundImage.width, backgroundImage.height, lengthUnit)}</p>
+                <p className={backgroundImage.calibrated ? 'text-muted-foreground' : 'text-amber-600'}>
+                  {backgroundImage.calibrated ? 'Масштаб откалиброван' : 'Масштаб не откалиброван'}
+                </p>
+              </div>
+            </div>
+
+            <Button className="w-full gap-2" onClick={handleCalibrate}>
+              <Ruler className="w-4 h-4" />
+              Калибровать масштаб
+            </Button>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="background-visible">Показывать подложку</Label>
+              <Switch
+                id="background-visible"
+                checked={backgroundImage.visible}
+                onCheckedChange={(visible) => updateBackgroundImage({ visible })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Прозрачность</Label>
+              <div className="flex items-center gap-3">
+                <Slider
+                  value={[Math.round(backgroundImage.opacity * 100)]}
+                  onValueChange={([v]) => updateBackgroundImage({ opacity: v / 100 })}
+                  min={10}
+                  max={100}
+                  step={5}
+                />
+                <span className="text-sm text-muted-foreground w-10">{Math.round(backgroundImage.opacity * 100)}%</span>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Положение</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <span className="text-xs text-muted-foreground">X</span>
+                  <LengthInput value={backgroundImage.x} onChange={(x) => updateBackgroundImage({ x })} />
+                </div>
+                <div>
+                  <span className="text-xs text-muted-foreground">Y</span>
+                  <LengthInput value={backgroundImage.y} onChange={(y) => updateBackgroundImage({ y })} />
+                </div>
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" className="flex-1 gap-2" disabled={isLoading} onClick={() => fileInputRef.current?.click()}>
+                <Upload className="w-4 h-4" />
+                {isLoading ? 'Загрузка…' : 'Заменить'}
+              </Button>
+              <Button variant="destructive" size="sm" className="flex-1 gap-2" onClick={() => setBackgroundImage(null)}>
+                <Trash2 className="w-4 h-4" />
+                Удалить
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,12 +1,29 @@
-import { useState, useRef } from 'react';
-import type { Table, Guest } from '@/types';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import type { Table, TableType, Guest, VenueObject, VenueObjectType } from '@/types';
 import { TableRenderer } from './TableRenderer';
+import { VenueObjectRenderer } from './VenueObjectRenderer';
+import { HistoryPanel } from './HistoryPanel';
+import { Minimap } from './Minimap';
+import { CategoryLegend } from './CategoryLegend';
+import { AutoSeatDialog } from './AutoSeatDialog';
+import { FloorPlanExportDialog } from './FloorPlanExportDialog';
+import { BackgroundImageDialog } from './BackgroundImageDialog';
 import { useSeatingStore } from '@/hooks/useSeatingStore';
+import { useCanvasViewport } from '@/hooks/useCanvasViewport';
+import { boundsIntersect, getTableBounds, type Bounds, type Point } from '@/lib/tableGeometry';
+import { formatLength, getUnitSymbol, parseLength, toLengthUnit } from '@/lib/units';
+import { TABLE_PRESETS, describeTablePreset } from '@/lib/tablePresets';
+import { findSpacingIssues } from '@/lib/spacing';
+import { calibrateBackgroundImage, getLineLength, type CalibrationLine } from '@/lib/backgroundImage';
+import { VENUE_OBJECT_DEFAULTS, VENUE_OBJECT_STYLES, getPlanContentBounds, venueObjectTypeLabels } from '@/lib/venueObjects';
+import { snapTablePosition, type SnapGuide } from '@/lib/snapping';
 import { Button } from '@/components/ui/button';
-import { Plus, Trash2, Grid3X3, ZoomIn, ZoomOut, RotateCcw } from 'lucide-react';
+import { Plus, Trash2, Grid3X3, ZoomIn, ZoomOut, RotateCcw, Maximize, Map as MapIcon, Palette, Magnet, Shapes, AlertTriangle } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
+  DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
   DialogTrigger,
@@ -18,19 +35,33 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
 
 interface CanvasProps {
   tables: Table[];
   guests: Guest[];
-  selectedTableId: string | null;
-  onSelectTable: (tableId: string | null) => void;
+  selectedTableIds: string[];
+  onSelectTables: (tableIds: string[]) => void;
+  selectedObjectId: string | null;
+  onSelectObject: (objectId: string | null) => void;
   onDropOnSeat: (guestId: string, tableId: string, seatId: string) => void;
+  onDropGroup: (groupId: string, tableId: string, seatId: string) => void;
   draggedGuest: Guest | null;
   showAllTooltips?: boolean;
 }
 
+const GRID_SIZES = [10, 20, 25, 50, 100];
+// Screen pixels within which a dragged table jumps to an alignment guide
+const SNAP_DISTANCE = 8;
+
 const tableTypeLabels: Record<string, string> = {
   round: 'Круглый стол',
   square: 'Квадратный стол',
@@ -42,42 +73,364 @@ const tableTypeLabels: Record<string, string> = {
 export function Canvas({ 
   tables, 
   guests, 
-  selectedTableId, 
-  onSelectTable,
+  selectedTableIds,
+  onSelectTables,
+  selectedObjectId,
+  onSelectObject,
   onDropOnSeat,
+  onDropGroup,
   draggedGuest,
   showAllTooltips = false
 }: CanvasProps) {
-  const [scale, setScale] = useState(1);
   const [showGrid, setShowGrid] = useState(true);
+  const [showMinimap, setShowMinimap] = useState(true);
+  const [showLegend, setShowLegend] = useState(true);
   const [isAddTableOpen, setIsAddTableOpen] = useState(false);
-  const [newTableType, setNewTableType] = useState<string>('round');
+  const [newTableType, setNewTableType] = useState<TableType>('round');
+  const [newTablePresetId, setNewTablePresetId] = useState('standard');
   const [newTableName, setNewTableName] = useState('');
+  const [showSpacing, setShowSpacing] = useState(true);
+  const [isSpacePressed, setIsSpacePressed] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+  const [guides, setGuides] = useState<SnapGuide[]>([]);
+  const [selectionBox, setSelectionBox] = useState<{ start: Point; end: Point } | null>(null);
+  // Background scale calibration: a line drawn over a known distance, then its real length
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [calibrationLine, setCalibrationLine] = useState<CalibrationLine | null>(null);
+  const [calibrationLength, setCalibrationLength] = useState('');
+  const [isCalibrationDialogOpen, setIsCalibrationDialogOpen] = useState(false);
   const canvasRef = useRef<HTMLDivElement>(null);
+  // Set by a pan or rubber-band drag so the click that ends it keeps the selection
+  const suppressClickRef = useRef(false);
+  // Set once a table drag actually moves, so the click that ends it keeps a group selected
+  const didDragTableRef = useRef(false);
+  const modifierKeysRef = useRef({ alt: false, shift: false });
+
+  const {
+    venueObjects,
+    backgroundImage,
+    updateBackgroundImage,
+    addTable,
+    removeTable,
+    removeTables,
+    updateTablePosition,
+    moveTables,
+    addVenueObject,
+    removeVenueObject,
+    moveVenueObject,
+    settings,
+    setGridSettings,
+  } = useSeatingStore();
+  const {
+    viewport,
+    size: viewportSize,
+    zoomAt,
+    zoomIn,
+    zoomOut,
+    resetZoom,
+    panBy,
+    screenToCanvas,
+    centerOn,
+    fitToBounds,
+  } = useCanvasViewport(canvasRef);
+  const scale = viewport.scale;
+
+  // Wheel zooms around the cursor; needs a non-passive listener to block page scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      zoomAt(e.clientX, e.clientY, Math.exp(-e.deltaY * 0.0015));
+    };
+
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [zoomAt]);
+
+  // Holding space turns the left mouse button into a pan tool
+  useEffect(() => {
+    const isTyping = (e: KeyboardEvent) =>
+      (e.target as HTMLElement).closest('input, textarea, [contenteditable="true"]') !== null;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      setIsSpacePressed(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setIsSpacePressed(false);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, []);
+
+  // Alt held while dragging places the table exactly under the cursor, Shift adds clicked tables
+  // to the selection. A ref, because the drag handler keeps the callbacks from the moment the
+  // drag started
+  useEffect(() => {
+    const track = (e: KeyboardEvent | MouseEvent) => {
+      modifierKeysRef.current = { alt: e.altKey, shift: e.shiftKey };
+    };
+    // Only reads the keys, never prevents them: presses stay with text fields and browser shortcuts.
+    // Keys typed into a field are skipped; the next mouse move picks the modifiers up anyway
+    const trackKey = (e: KeyboardEvent) => {
+      if ((e.target as HTMLElement).closest('input, textarea, [contenteditable="true"]')) return;
+      track(e);
+    };
+    window.addEventListener('keydown', trackKey);
+    window.addEventListener('keyup', trackKey);
+    window.addEventListener('mousemove', track);
+    return () => {
+      window.removeEventListener('keydown', trackKey);
+      window.removeEventListener('keyup', trackKey);
+      window.removeEventListener('mousemove', track);
+    };
+  }, []);
+
+  // Escape leaves calibration without touching the background
+  useEffect(() => {
+    if (!isCalibrating) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      setIsCalibrating(false);
+      setCalibrationLine(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isCalibrating]);
+
+  // Guides only live while a table is being dragged
+  useEffect(() => {
+    if (guides.length === 0) return;
+    const clearGuides = () => setGuides([]);
+    window.addEventListener('mouseup', clearGuides);
+    return () => window.removeEventListener('mouseup', clearGuides);
+  }, [guides.length]);
+
+  // Dragging a selected table carries the rest of the selection along; only the dragged table
+  // snaps, and never to the tables moving with it. `tables` still holds the positions from
+  // the moment the drag started, so every table keeps its offset
+  const handleTableMove = (table: Table, x: number, y: number) => {
+    const inSelection = selectedTableIds.includes(table.id);
+    if (!inSelection && !didDragTableRef.current) onSelectTables([table.id]);
+    didDragTableRef.current = true;
+
+    const group = inSelection ? tables.filter((t) => selectedTableIds.includes(t.id)) : [table];
+    const snapped = modifierKeysRef.current.alt
+      ? { x, y, guides: [] }
+      : snapTablePosition(table, x, y, tables.filter((t) => !group.includes(t)), {
+          gridSize: settings.gridSize,
+          snapToGrid: settings.snapToGrid,
+          threshold: SNAP_DISTANCE / scale,
+        });
+    setGuides(snapped.guides);
+
+    if (group.length === 1) {
+      updateTablePosition(table.id, snapped.x, snapped.y);
+      return;
+    }
+    const dx = snapped.x - table.x;
+    const dy = snapped.y - table.y;
+    moveTables(group.map((t) => ({ id: t.id, x: t.x + dx, y: t.y + dy })));
+  };
+
+  const handleTableSelect = (tableId: string) => {
+    if (didDragTableRef.current) {
+      didDragTableRef.current = false;
+      return;
+    }
+    if (!modifierKeysRef.current.shift) {
+      onSelectTables([tableId]);
+      return;
+    }
+    onSelectTables(selectedTableIds.includes(tableId)
+      ? selectedTableIds.filter((id) => id !== tableId)
+      : [...selectedTableIds, tableId]);
+  };
 
-  const { addTable, removeTable, updateTablePosition } = useSeatingStore();
+  const handleDeleteTable = (tableId: string) => {
+    removeTable(tableId);
+    onSelectTables(selectedTableIds.filter((id) => id !== tableId));
+  };
+
+  // Objects snap their corner rather than their centre, so walls meet on grid lines
+  const handleObjectMove = (object: VenueObject, x: number, y: number) => {
+    if (modifierKeysRef.current.alt || !settings.snapToGrid) {
+      moveVenueObject(object.id, x, y);
+      return;
+    }
+    const snap = (value: number) => Math.round(value / settings.gridSize) * settings.gridSize;
+    moveVenueObject(object.id, snap(x), snap(y));
+  };
+
+  const getViewCenter = () => {
+    const canvasRect = canvasRef.current?.getBoundingClientRect();
+    return canvasRect
+      ? screenToCanvas(canvasRect.left + canvasRect.width / 2, canvasRect.top + canvasRect.height / 2)
+      : { x: 200, y: 150 };
+  };
+
+  const handleAddObject = (type: VenueObjectType) => {
+    const center = getViewCenter();
+    const { width, height } = VENUE_OBJECT_DEFAULTS[type];
+    onSelectObject(addVenueObject(type, Math.round(center.x - width / 2), Math.round(center.y - height / 2)));
+  };
 
   const handleAddTable = () => {
     if (newTableName.trim()) {
-      const canvasRect = canvasRef.current?.getBoundingClientRect();
-      const centerX = canvasRect ? (canvasRect.width / 2 - 100) / scale : 100;
-      const centerY = canvasRect ? (canvasRect.height / 2 - 50) / scale : 100;
-      
-      addTable(newTableType as any, newTableName.trim(), centerX, centerY);
+      const center = getViewCenter();
+      const preset = TABLE_PRESETS.find((p) => p.id === newTablePresetId && p.type === newTableType);
+
+      addTable(newTableType, newTableName.trim(), center.x - 100, center.y - 50, preset);
       setNewTableName('');
       setIsAddTableOpen(false);
     }
   };
 
   const handleCanvasClick = (e: React.MouseEvent) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
     if (e.target === e.currentTarget) {
-      onSelectTable(null);
+      onSelectTables([]);
     }
   };
 
-  const zoomIn = () => setScale((s) => Math.min(s * 1.2, 3));
-  const zoomOut = () => setScale((s) => Math.max(s / 1.2, 0.3));
-  const resetZoom = () => setScale(1);
+  // While calibrating, a left drag anywhere draws the measuring line instead of moving tables
+  const handleCalibrationMouseDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    suppressClickRef.current = true;
+
+    const start = screenToCanvas(e.clientX, e.clientY);
+    setCalibrationLine({ start, end: start });
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      setCalibrationLine({ start, end: screenToCanvas(moveEvent.clientX, moveEvent.clientY) });
+    };
+    const handleMouseUp = (upEvent: MouseEvent) => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+      const line = { start, end: screenToCanvas(upEvent.clientX, upEvent.clientY) };
+      // A click without a drag leaves calibration on for another try
+      if (getLineLength(line) * scale < 5) {
+        setCalibrationLine(null);
+        return;
+      }
+      setCalibrationLine(line);
+      setCalibrationLength('');
+      setIsCalibrationDialogOpen(true);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  const finishCalibration = () => {
+    setIsCalibrationDialogOpen(false);
+    setIsCalibrating(false);
+    setCalibrationLine(null);
+  };
+
+  const handleApplyCalibration = () => {
+    const length = parseLength(calibrationLength, settings.lengthUnit);
+    if (!backgroundImage || !calibrationLine || !length || length <= 0) return;
+    updateBackgroundImage(calibrateBackgroundImage(backgroundImage, calibrationLine, length));
+    finishCalibration();
+    toast.success('Масштаб подложки откалиброван');
+  };
+
+  // Middle button or space + left button pans; captured before tables start their own drag
+  const handleCanvasMouseDownCapture = (e: React.MouseEvent) => {
+    didDragTableRef.current = false;
+    if (isCalibrating && e.button === 0 && !isSpacePressed) {
+      handleCalibrationMouseDown(e);
+      return;
+    }
+    if (!(e.button === 1 || (e.button === 0 && isSpacePressed))) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    let lastX = e.clientX;
+    let lastY = e.clientY;
+    suppressClickRef.current = false;
+    setIsPanning(true);
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      suppressClickRef.current = true;
+      panBy(moveEvent.clientX - lastX, moveEvent.clientY - lastY);
+      lastX = moveEvent.clientX;
+      lastY = moveEvent.clientY;
+    };
+    const handleMouseUp = () => {
+      setIsPanning(false);
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  // Left drag on empty canvas draws a selection box; every table it touches gets selected,
+  // added to the current selection when Shift is held
+  const handleCanvasMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0 || e.target !== e.currentTarget) return;
+    e.preventDefault();
+
+    const start = screenToCanvas(e.clientX, e.clientY);
+    const baseIds = e.shiftKey ? selectedTableIds : [];
+    suppressClickRef.current = false;
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      const end = screenToCanvas(moveEvent.clientX, moveEvent.clientY);
+      const box: Bounds = {
+        minX: Math.min(start.x, end.x),
+        minY: Math.min(start.y, end.y),
+        maxX: Math.max(start.x, end.x),
+        maxY: Math.max(start.y, end.y),
+      };
+      const hitIds = tables.filter((t) => boundsIntersect(getTableBounds(t), box)).map((t) => t.id);
+      suppressClickRef.current = true;
+      setSelectionBox({ start, end });
+      onSelectTables([...new Set([...baseIds, ...hitIds])]);
+    };
+    const handleMouseUp = () => {
+      setSelectionBox(null);
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  const fitToContent = () => {
+    const bounds = getPlanContentBounds(tables, venueObjects) ?? (backgroundImage && {
+      minX: backgroundImage.x,
+      minY: backgroundImage.y,
+      maxX: backgroundImage.x + backgroundImage.width,
+      maxY: backgroundImage.y + backgroundImage.height,
+    });
+    if (bounds) fitToBounds(bounds);
+  };
+
+  const isPlanEmpty = tables.length === 0 && venueObjects.length === 0;
+
+  const spacingIssues = useMemo(
+    () => (showSpacing ? findSpacingIssues(tables, settings.minClearance) : []),
+    [showSpacing, tables, settings.minClearance]
+  );
+  const overlapCount = spacingIssues.filter((issue) => issue.kind === 'overlap').length;
+  const newTablePresets = TABLE_PRESETS.filter((preset) => preset.type === newTableType);
 
   return (
     <div className="flex flex-col h-full">
@@ -98,7 +451,13 @@ export function Canvas({
               <div className="space-y-4 pt-4">
                 <div className="space-y-2">
                   <Label>Тип стола</Label>
-                  <Select value={newTableType} onValueChange={setNewTableType}>
+                  <Select
+                    value={newTableType}
+                    onValueChange={(v) => {
+                      setNewTableType(v as TableType);
+                      setNewTablePresetId('standard');
+                    }}
+                  >
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
@@ -119,6 +478,22 @@ export function Canvas({
                     placeholder={`${tableTypeLabels[newTableType]} 1`}
                   />
                 </div>
+                {newTablePresets.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Размер</Label>
+                    <Select value={newTablePresetId} onValueChange={setNewTablePresetId}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="standard">Стандартный</SelectItem>
+                        {newTablePresets.map((preset) => (
+                          <SelectItem key={preset.id} value={preset.id}>{describeTablePreset(preset, settings.lengthUnit)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
                 <Button onClick={handleAddTable} className="w-full">
                   Добавить
                 </Button>
@@ -126,14 +501,57 @@ export function Canvas({
             </DialogContent>
           </Dialog>
 
-          {selectedTableId && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="gap-2">
+                <Shapes className="w-4 h-4" />
+                Объекты зала
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              {(Object.keys(venueObjectTypeLabels) as VenueObjectType[]).map((type) => (
+                <DropdownMenuItem key={type} onClick={() => handleAddObject(type)}>
+                  <span
+                    className="w-3 h-3 rounded-sm border"
+                    style={{
+                      background: VENUE_OBJECT_STYLES[type].shape === 'text' ? undefined : VENUE_OBJECT_STYLES[type].fill,
+                      borderColor: VENUE_OBJECT_STYLES[type].shape === 'text' ? undefined : VENUE_OBJECT_STYLES[type].stroke,
+                    }}
+                  />
+                  {venueObjectTypeLabels[type]}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <BackgroundImageDialog getViewCenter={getViewCenter} onCalibrate={() => setIsCalibrating(true)} />
+
+          <AutoSeatDialog selectedTableIds={selectedTableIds} />
+          <FloorPlanExportDialog />
+
+          {selectedTableIds.length > 0 && (
             <Button
               variant="destructive"
               size="sm"
               className="gap-2"
               onClick={() => {
-                removeTable(selectedTableId);
-                onSelectTable(null);
+                removeTables(selectedTableIds);
+                onSelectTables([]);
+              }}
+            >
+              <Trash2 className="w-4 h-4" />
+              {selectedTableIds.length > 1 ? `Удалить (${selectedTableIds.length})` : 'Удалить'}
+            </Button>
+          )}
+
+          {selectedObjectId && (
+            <Button
+              variant="destructive"
+              size="sm"
+              className="gap-2"
+              onClick={() => {
+                removeVenueObject(selectedObjectId);
+                onSelectObject(null);
               }}
             >
               <Trash2 className="w-4 h-4" />
@@ -143,6 +561,8 @@ export function Canvas({
         </div>
 
         <div className="flex items-center gap-1">
+          <HistoryPanel />
+          <div className="w-px h-6 bg-border mx-2" />
           <Button
             variant={showGrid ? 'secondary' : 'ghost'}
             size="icon"
@@ -151,6 +571,37 @@ export function Canvas({
           >
             <Grid3X3 className="w-4 h-4" />
           </Button>
+          <Button
+            variant={settings.snapToGrid ? 'secondary' : 'ghost'}
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => setGridSettings({ snapToGrid: !settings.snapToGrid })}
+            title="Привязка к сетке (удерживайте Alt, чтобы отключить)"
+          >
+            <Magnet className="w-4 h-4" />
+          </Button>
+          <Select value={String(settings.gridSize)} onValueChange={(v) => setGridSettings({ gridSize: Number(v) })}>
+            <SelectTrigger className="h-8 w-24" title="Шаг сетки">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[...new Set([...GRID_SIZES, settings.gridSize])].sort((a, b) => a - b).map((size) => (
+                <SelectItem key={size} value={String(size)}>{formatLength(size, settings.lengthUnit)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant={showSpacing ? 'secondary' : 'ghost'}
+            size="sm"
+            className={`h-8 gap-1 px-2 ${spacingIssues.length > 0 ? (overlapCount > 0 ? 'text-red-600' : 'text-amber-600') : ''}`}
+            onClick={() => setShowSpacing(!showSpacing)}
+            title={showSpacing
+              ? `Проверка проходов: пересечений — ${overlapCount}, проходов уже ${formatLength(settings.minClearance, settings.lengthUnit)} — ${spacingIssues.length - overlapCount}`
+              : 'Проверка проходов между столами'}
+          >
+            <AlertTriangle className="w-4 h-4" />
+            {spacingIssues.length > 0 && <span className="text-xs font-semibold">{spacingIssues.length}</span>}
+          </Button>
           <div className="w-px h-6 bg-border mx-2" />
           <Button variant="ghost" size="icon" className="h-8 w-8" onClick={zoomOut}>
             <ZoomOut className="w-4 h-4" />
@@ -161,9 +612,37 @@ export function Canvas({
           <Button variant="ghost" size="icon" className="h-8 w-8" onClick={zoomIn}>
             <ZoomIn className="w-4 h-4" />
           </Button>
-          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={resetZoom}>
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={resetZoom} title="Масштаб 100%">
             <RotateCcw className="w-4 h-4" />
           </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={fitToContent}
+            disabled={isPlanEmpty && !backgroundImage}
+            title="Показать весь план"
+          >
+            <Maximize className="w-4 h-4" />
+          </Button>
+          <Button
+            variant={showMinimap ? 'secondary' : 'ghost'}
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => setShowMinimap(!showMinimap)}
+            title="Мини-карта"
+          >
+            <MapIcon className="w-4 h-4" />
+          </Button>
+          <Button
+            variant={showLegend ? 'secondary' : 'ghost'}
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => setShowLegend(!showLegend)}
+            title="Легенда категорий"
+          >
+            <Palette className="w-4 h-4" />
+          </Button>
         </div>
       </div>
 
@@ -171,42 +650,200 @@ export function Canvas({
       <div className="flex-1 overflow-hidden bg-muted/30 relative">
         <div
           ref={canvasRef}
-          className="w-full h-full relative overflow-auto"
+          className={`w-full h-full relative overflow-hidden ${
+            isPanning ? 'cursor-grabbing' : isSpacePressed ? 'cursor-grab' : isCalibrating ? 'cursor-crosshair' : ''
+          }`}
+          style={{
+            background: showGrid
+              ? `
+                linear-gradient(to right, rgba(0,0,0,0.05) 1px, transparent 1px),
+                linear-gradient(to bottom, rgba(0,0,0,0.05) 1px, transparent 1px)
+              `
+              : undefined,
+            backgroundSize: showGrid ? `${settings.gridSize * scale}px ${settings.gridSize * scale}px` : undefined,
+            backgroundPosition: showGrid ? `${viewport.x}px ${viewport.y}px` : undefined,
+          }}
           onClick={handleCanvasClick}
+          onMouseDown={handleCanvasMouseDown}
+          onMouseDownCapture={handleCanvasMouseDownCapture}
         >
           <div
-            className="absolute min-w-[2000px] min-h-[1500px] origin-top-left transition-transform"
-            style={{
-              transform: `scale(${scale})`,
-              background: showGrid
-                ? `
-                  linear-gradient(to right, rgba(0,0,0,0.05) 1px, transparent 1px),
-                  linear-gradient(to bottom, rgba(0,0,0,0.05) 1px, transparent 1px)
-                `
-                : undefined,
-              backgroundSize: showGrid ? '20px 20px' : undefined,
-            }}
+            className="absolute left-0 top-0 origin-top-left"
+            style={{ transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${scale})` }}
           >
+            {/* Locked background: never takes the pointer, so clicks reach the canvas */}
+            {backgroundImage?.visible && (
+              <img
+                src={backgroundImage.src}
+                alt=""
+                draggable={false}
+                className="absolute max-w-none pointer-events-none select-none"
+                style={{
+                  left: backgroundImage.x,
+                  top: backgroundImage.y,
+                  width: backgroundImage.width,
+                  height: backgroundImage.height,
+                  opacity: backgroundImage.opacity,
+                }}
+              />
+            )}
+
+            {venueObjects.map((object) => (
+              <VenueObjectRenderer
+                key={object.id}
+                object={object}
+                isSelected={selectedObjectId === object.id}
+                onSelect={() => onSelectObject(object.id)}
+                scale={scale}
+                onUpdatePosition={(x, y) => handleObjectMove(object, x, y)}
+              />
+            ))}
+
             {tables.map((table) => (
               <TableRenderer
                 key={table.id}
                 table={table}
                 guests={guests}
-                isSelected={selectedTableId === table.id}
-                onSelect={() => onSelectTable(table.id)}
-                onDelete={() => {
-                  removeTable(table.id);
-                  onSelectTable(null);
-                }}
+                isSelected={selectedTableIds.includes(table.id)}
+                onSelect={() => handleTableSelect(table.id)}
+                onDelete={() => handleDeleteTable(table.id)}
                 scale={scale}
-                onUpdatePosition={(x, y) => updateTablePosition(table.id, x, y)}
+                onUpdatePosition={(x, y) => handleTableMove(table, x, y)}
                 onDropOnSeat={onDropOnSeat}
+                onDropGroup={onDropGroup}
                 draggedGuest={draggedGuest}
                 showAllTooltips={showAllTooltips}
               />
             ))}
+
+            {/* Alignment guides, kept one screen pixel wide at any zoom */}
+            {guides.map((guide) => (
+              <div
+                key={`${guide.axis}:${guide.position}`}
+                className="absolute bg-rose-500 pointer-events-none"
+                style={guide.axis === 'x'
+                  ? { left: guide.position, top: guide.from, width: 1 / scale, height: guide.to - guide.from, zIndex: 1000 }
+                  : { left: guide.from, top: guide.position, width: guide.to - guide.from, height: 1 / scale, zIndex: 1000 }}
+              />
+            ))}
+
+            {/* Overlapping tables and aisles narrower than the minimum clearance */}
+            {spacingIssues.length > 0 && (
+              <svg className="absolute left-0 top-0 overflow-visible pointer-events-none" width={1} height={1} style={{ zIndex: 999 }}>
+                {spacingIssues.map((issue) => {
+                  const color = issue.kind === 'overlap' ? '#dc2626' : '#d97706';
+                  const mid = { x: (issue.from.x + issue.to.x) / 2, y: (issue.from.y + issue.to.y) / 2 };
+                  return (
+                    <g key={issue.tableIds.join(':')}>
+                      <line
+                        x1={issue.from.x}
+                        y1={issue.from.y}
+                        x2={issue.to.x}
+                        y2={issue.to.y}
+                        stroke={color}
+                        strokeWidth={2 / scale}
+                        strokeDasharray={`${4 / scale} ${3 / scale}`}
+                      />
+                      <circle cx={mid.x} cy={mid.y} r={5 / scale} fill={color} />
+                      <text
+                        x={mid.x}
+                        y={mid.y - 8 / scale}
+                        fontSize={12 / scale}
+                        fontWeight={600}
+                        textAnchor="middle"
+                        fill={color}
+                        stroke="#fff"
+                        strokeWidth={3 / scale}
+                        paintOrder="stroke"
+                      >
+                        {issue.kind === 'overlap' ? 'Пересечение' : formatLength(issue.gap, settings.lengthUnit)}
+                      </text>
+                    </g>
+                  );
+                })}
+              </svg>
+            )}
+
+            {calibrationLine && (
+              <svg className="absolute left-0 top-0 overflow-visible pointer-events-none" width={1} height={1} style={{ zIndex: 1000 }}>
+                <line
+                  x1={calibrationLine.start.x}
+                  y1={calibrationLine.start.y}
+                  x2={calibrationLine.end.x}
+                  y2={calibrationLine.end.y}
+                  stroke="#e11d48"
+                  strokeWidth={2 / scale}
+                />
+                <circle cx={calibrationLine.start.x} cy={calibrationLine.start.y} r={4 / scale} fill="#e11d48" />
+                <circle cx={calibrationLine.end.x} cy={calibrationLine.end.y} r={4 / scale} fill="#e11d48" />
+              </svg>
+            )}
+
+            {selectionBox && (
+              <div
+                className="absolute border-primary bg-primary/10 pointer-events-none"
+                style={{
+                  left: Math.min(selectionBox.start.x, selectionBox.end.x),
+                  top: Math.min(selectionBox.start.y, selectionBox.end.y),
+                  width: Math.abs(selectionBox.end.x - selectionBox.start.x),
+                  height: Math.abs(selectionBox.end.y - selectionBox.start.y),
+                  borderWidth: 1 / scale,
+                  zIndex: 1000,
+                }}
+              />
+            )}
           </div>
         </div>
+
+        {isCalibrating && (
+          <div className="absolute top-3 left-1/2 -translate-x-1/2 bg-card border rounded-lg shadow-lg px-3 py-2 text-sm flex items-center gap-3 z-[200]">
+            Проведите линию вдоль известного размера на подложке
+            <Button variant="ghost" size="sm" className="h-7" onClick={finishCalibration}>
+              Отмена
+            </Button>
+          </div>
+        )}
+
+        {showLegend && <CategoryLegend tables={tables} guests={guests} />}
+
+        <Dialog open={isCalibrationDialogOpen} onOpenChange={(open) => !open && finishCalibration()}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Длина отрезка</DialogTitle>
+              <DialogDescription>
+                Сейчас отрезок соответствует {formatLength(calibrationLine ? getLineLength(calibrationLine) : 0, settings.lengthUnit)}. Укажите его настоящую длину в зале
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="calibration-length">Длина, {getUnitSymbol(settings.lengthUnit)}</Label>
+              <Input
+                id="calibration-length"
+                inputMode="decimal"
+                value={calibrationLength}
+                onChange={(e) => setCalibrationLength(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleApplyCalibration()}
+                placeholder={String(toLengthUnit(1250, settings.lengthUnit)).replace('.', ',')}
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={finishCalibration}>Отмена</Button>
+              <Button onClick={handleApplyCalibration} disabled={!((parseLength(calibrationLength, settings.lengthUnit) ?? 0) > 0)}>
+                Применить
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {showMinimap && !isPlanEmpty && (
+          <Minimap
+            tables={tables}
+            venueObjects={venueObjects}
+            viewport={viewport}
+            viewportSize={viewportSize}
+            onNavigate={centerOn}
+          />
+        )}
       </div>
     </div>
   );
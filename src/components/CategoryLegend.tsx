@@ -0,0 +1,28 @@
+import type { Guest, Table } from '@/types';
+import { getCategoryLegend } from '@/lib/guestTags';
+
+interface CategoryLegendProps {
+  tables: Table[];
+  guests: Guest[];
+}
+
+// Colours of the seated guests with their shared tags, shown over the canvas
+export function CategoryLegend({ tables, guests }: CategoryLegendProps) {
+  const seatedIds = new Set(tables.flatMap((t) => t.seats.map((s) => s.guestId).filter(Boolean)));
+  const entries = getCategoryLegend(guests.filter((g) => seatedIds.has(g.id)));
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-4 left-4 bg-card/90 border rounded-lg shadow-lg px-3 py-2 z-[200] max-w-64 space-y-1">
+      <p className="text-xs font-medium text-muted-foreground">Категории</p>
+      {entries.map((entry) => (
+        <div key={entry.color} className="flex items-center gap-2 text-xs">
+          <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: entry.color }} />
+          <span className="flex-1 truncate" title={entry.label}>{entry.label}</span>
+          <span className="text-muted-foreground">{entry.count}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useSeatingStore } from '@/hooks/useSeatingStore';
+import {
+  DIETARY_RESTRICTIONS,
+  MEAL_TYPES,
+  buildCateringReport,
+  cateringReportToRows,
+  dietaryIcons,
+  dietaryLabels,
+  mealIcons,
+  mealLabels,
+  type CateringRow,
+} from '@/lib/dietary';
+import { dateStamp, downloadCsv } from '@/lib/download';
+import { escapeHtml, printHtml } from '@/lib/print';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Table as UITable,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ChefHat, FileSpreadsheet, Printer } from 'lucide-react';
+
+const CountCell = ({ value }: { value: number }) => (
+  <TableCell className={`text-center ${value === 0 ? 'text-muted-foreground/50' : ''}`}>{value}</TableCell>
+);
+
+export function CateringReportDialog() {
+  const tables = useSeatingStore((state) => state.tables);
+  const guests = useSeatingStore((state) => state.guests);
+  const report = buildCateringReport({ tables, guests });
+
+  const handleCsv = () => {
+    downloadCsv(cateringReportToRows(report), `catering-${dateStamp()}.csv`);
+  };
+
+  const handlePrint = () => {
+    const [header, ...rows] = cateringReportToRows(report);
+    const body = rows.slice(0, -1);
+    const total = rows[rows.length - 1];
+    const cells = (row: string[], tag: 'td' | 'th') => row.map((c) => `<${tag}>${escapeHtml(c)}</${tag}>`).join('');
+
+    printHtml('Отчёт для кейтеринга', `
+      <h1>Отчёт для кейтеринга — ${escapeHtml(new Date().toLocaleDateString('ru-RU'))}</h1>
+      <table>
+        <thead><tr>${cells(header, 'th')}</tr></thead>
+        <tbody>${body.map((row) => `<tr>${cells(row, 'td')}</tr>`).join('')}</tbody>
+        <tfoot><tr>${cells(total, 'td')}</tr></tfoot>
+      </table>
+    `);
+  };
+
+  const renderRow = (row: CateringRow, key: string) => (
+    <TableRow key={key}>
+      <TableCell className="font-medium">{row.tableName}</TableCell>
+      <CountCell value={row.guestCount} />
+      {MEAL_TYPES.map((meal) => <CountCell key={meal} value={row.meals[meal]} />)}
+      {DIETARY_RESTRICTIONS.map((restriction) => <CountCell key={restriction} value={row.dietary[restriction]} />)}
+      <TableCell className="text-xs text-muted-foreground whitespace-normal min-w-40">
+        {row.notes.map((n) => `${n.guestName}: ${n.note}`).join('; ')}
+      </TableCell>
+    </TableRow>
+  );
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2">
+          <ChefHat className="w-4 h-4" />
+          Питание
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-4xl max-h-[85vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Отчёт для кейтеринга</DialogTitle>
+        </DialogHeader>
+
+        {guests.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">Нет гостей</p>
+        ) : (
+          <UITable>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Стол</TableHead>
+                <TableHead className="text-center">Гостей</TableHead>
+                {MEAL_TYPES.map((meal) => {
+                  const Icon = mealIcons[meal];
+                  return (
+                    <TableHead key={meal} className="text-center" title={mealLabels[meal]}>
+                      <Icon className="w-4 h-4 mx-auto" />
+                    </TableHead>
+                  );
+                })}
+                {DIETARY_RESTRICTIONS.map((restriction) => {
+                  const Icon = dietaryIcons[restriction];
+                  return (
+                    <TableHead key={restriction} className="text-center" title={dietaryLabels[restriction]}>
+                      <Icon className="w-4 h-4 mx-auto" />
+                    </TableHead>
+                  );
+                })}
+                <TableHead>Примечания</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.rows.map((row, index) => renderRow(row, row.tableId ?? `unseated-${index}`))}
+            </TableBody>
+            <TableFooter>
+              {renderRow(report.total, 'total')}
+            </TableFooter>
+          </UITable>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" className="gap-2" onClick={handleCsv} disabled={guests.length === 0}>
+            <FileSpreadsheet className="w-4 h-4" />
+            CSV
+          </Button>
+          <Button variant="outline" size="sm" className="gap-2" onClick={handlePrint} disabled={guests.length === 0}>
+            <Printer className="w-4 h-4" />
+            Печать
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
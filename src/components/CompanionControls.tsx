@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import type { Guest } from '@/types';
+import { useSeatingStore } from '@/hooks/useSeatingStore';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Baby, Pencil, UserPlus } from 'lucide-react';
+
+interface CompanionControlProps {
+  guest: Guest;
+}
+
+// Menu for adding a +1 or a child to a primary guest
+export function AddCompanionMenu({ guest }: CompanionControlProps) {
+  const addCompanion = useSeatingStore((state) => state.addCompanion);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 transition-opacity"
+          title="Добавить спутника"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <UserPlus className="w-3 h-3" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => addCompanion(guest.id, 'plus-one')}>
+          <UserPlus className="w-4 h-4" />
+          Спутник (+1)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => addCompanion(guest.id, 'child')}>
+          <Baby className="w-4 h-4" />
+          Ребёнок
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+// Fill in the real name of a placeholder companion
+export function CompanionNamePopover({ guest }: CompanionControlProps) {
+  const fillCompanionName = useSeatingStore((state) => state.fillCompanionName);
+  const [isOpen, setIsOpen] = useState(false);
+  const [firstName, setFirstName] = useState('');
+  const [lastName, setLastName] = useState('');
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setFirstName('');
+      setLastName(guest.lastName);
+    }
+  };
+
+  const handleSave = () => {
+    fillCompanionName(guest.id, firstName, lastName);
+    setIsOpen(false);
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title="Указать имя"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <Pencil className="w-3 h-3 text-primary" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-64 space-y-2">
+        <p className="text-sm font-medium">Имя спутника</p>
+        <Input value={lastName} onChange={(e) => setLastName(e.target.value)} placeholder="Фамилия" className="h-8" />
+        <Input
+          value={firstName}
+          onChange={(e) => setFirstName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && firstName.trim()) handleSave();
+          }}
+          placeholder="Имя"
+          className="h-8"
+          autoFocus
+        />
+        <Button size="sm" className="w-full" onClick={handleSave} disabled={!firstName.trim()}>
+          Сохранить
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
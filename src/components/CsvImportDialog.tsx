@@ -0,0 +1,330 @@
+import { useMemo, useState } from 'react';
+import { useSeatingStore } from '@/hooks/useSeatingStore';
+import {
+  buildImportPreview,
+  decodeImportFile,
+  detectDelimiter,
+  guessImportMapping,
+  importFieldLabels,
+  isNameMapped,
+  parseDelimited,
+  type ImportDelimiter,
+  type ImportEncoding,
+  type ImportField,
+} from '@/lib/guestImport';
+import { formatFullName } from '@/lib/guestNames';
+import { duplicateReasonLabels, findBatchDuplicates, isCertainDuplicate } from '@/lib/duplicates';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertTriangle, CheckCircle2, FileSpreadsheet, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+
+const PREVIEW_LIMIT = 200;
+
+const encodingLabels: Record<ImportEncoding, string> = {
+  auto: 'Автоопределение',
+  'utf-8': 'UTF-8',
+  'windows-1251': 'Windows-1251',
+};
+
+const delimiterLabels: Record<ImportDelimiter, string> = {
+  auto: 'Автоопределение',
+  ';': 'Точка с запятой (;)',
+  ',': 'Запятая (,)',
+  '\t': 'Табуляция (TSV)',
+};
+
+const IMPORT_FIELDS = Object.keys(importFieldLabels) as ImportField[];
+
+export function CsvImportDialog() {
+  const importGuestRecords = useSeatingStore((state) => state.importGuestRecords);
+  const guests = useSeatingStore((state) => state.guests);
+  const nameOrder = useSeatingStore((state) => state.settings.nameOrder);
+  const [isOpen, setIsOpen] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [buffer, setBuffer] = useState<ArrayBuffer | null>(null);
+  const [encoding, setEncoding] = useState<ImportEncoding>('auto');
+  const [delimiter, setDelimiter] = useState<ImportDelimiter>('auto');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ImportField[]>([]);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+
+  // Parsing and the duplicate scan (every row against every guest) only rerun when their inputs change
+  const { decoded, usedDelimiter, table } = useMemo(() => {
+    const decoded = buffer ? decodeImportFile(buffer, encoding) : null;
+    const usedDelimiter = decoded ? (delimiter === 'auto' ? detectDelimiter(decoded.text) : delimiter) : ';';
+    return { decoded, usedDelimiter, table: decoded ? parseDelimited(decoded.text, usedDelimiter) : { rows: [], lines: [] } };
+  }, [buffer, encoding, delimiter]);
+  const { rows } = table;
+  const columnMapping = useMemo(() => {
+    const columnCount = Math.max(0, ...rows.map((r) => r.length));
+    return Array.from({ length: columnCount }, (_, i) => mapping[i] ?? 'ignore');
+  }, [rows, mapping]);
+  const preview = useMemo(
+    () => buildImportPreview(table, columnMapping, hasHeader, nameOrder),
+    [table, columnMapping, hasHeader, nameOrder]
+  );
+  const valid = useMemo(() => preview.filter((row) => row.record), [preview]);
+  const duplicates = useMemo(() => findBatchDuplicates(valid.map((row) => row.record!), guests), [valid, guests]);
+  const duplicateByLine = new Map(valid.map((row, i) => [row.line, duplicates[i]]));
+  const skippedDuplicates = skipDuplicates ? duplicates.filter((d) => d && isCertainDuplicate(d.reason)).length : 0;
+  const importable = valid.filter((row) => {
+    const duplicate = duplicateByLine.get(row.line);
+    return !(skipDuplicates && duplicate && isCertainDuplicate(duplicate.reason));
+  });
+  const nameMapped = isNameMapped(columnMapping);
+
+  const reset = () => {
+    setFileName('');
+    setBuffer(null);
+    setEncoding('auto');
+    setDelimiter('auto');
+    setHasHeader(true);
+    setMapping([]);
+    setSkipDuplicates(true);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) reset();
+  };
+
+  // Columns change with encoding and delimiter, so the mapping is guessed again from the new header
+  const applyFormat = (data: ArrayBuffer, nextEncoding: ImportEncoding, nextDelimiter: ImportDelimiter) => {
+    const { text } = decodeImportFile(data, nextEncoding);
+    const firstRow = parseDelimited(text, nextDelimiter === 'auto' ? detectDelimiter(text) : nextDelimiter).rows[0];
+    setEncoding(nextEncoding);
+    setDelimiter(nextDelimiter);
+    setMapping(guessImportMapping(firstRow ?? []));
+  };
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const data = reader.result as ArrayBuffer;
+      setFileName(file.name);
+      setBuffer(data);
+      setHasHeader(true);
+      applyFormat(data, 'auto', 'auto');
+    };
+    reader.readAsArrayBuffer(file);
+  };
+
+  const setColumnField = (column: number, field: ImportField) => {
+    // A field can be mapped to one column only
+    setMapping(columnMapping.map((f, i) => (i === column ? field : f === field && field !== 'ignore' ? 'ignore' : f)));
+  };
+
+  const handleImport = () => {
+    const { imported, groupsCreated } = importGuestRecords(importable.map((row) => row.record!));
+    toast.success(`Импортировано гостей: ${imported}`, {
+      description: [
+        groupsCreated > 0 ? `создано групп: ${groupsCreated}` : '',
+        preview.length > valid.length ? `пропущено строк с ошибками: ${preview.length - valid.length}` : '',
+        skippedDuplicates > 0 ? `пропущено повторов: ${skippedDuplicates}` : '',
+      ].filter(Boolean).join(', ') || undefined,
+    });
+    handleOpenChange(false);
+  };
+
+  const header = hasHeader ? rows[0] ?? [] : [];
+  const sample = rows[hasHeader ? 1 : 0] ?? [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8" title="Импорт из CSV / Excel">
+          <FileSpreadsheet className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Импорт гостей из таблицы</DialogTitle>
+          <DialogDescription>
+            Файл CSV или TSV, сохранённый из Excel или Google Таблиц
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <input type="file" accept=".csv,.tsv,.txt" onChange={handleFile} className="hidden" id="csv-import-file" />
+            <label htmlFor="csv-import-file">
+              <Button variant="outline" size="sm" asChild>
+                <span>Выбрать файл</span>
+              </Button>
+            </label>
+            <span className="text-sm text-muted-foreground truncate">{fileName || 'Файл не выбран'}</span>
+          </div>
+
+          {buffer && (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label>Кодировка</Label>
+                  <Select value={encoding} onValueChange={(v) => applyFormat(buffer, v as ImportEncoding, delimiter)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(encodingLabels) as ImportEncoding[]).map((e) => (
+                        <SelectItem key={e} value={e}>
+                          {e === 'auto' && decoded ? `${encodingLabels.auto} (${encodingLabels[decoded.encoding]})` : encodingLabels[e]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Разделитель</Label>
+                  <Select value={delimiter} onValueChange={(v) => applyFormat(buffer, encoding, v as ImportDelimiter)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(delimiterLabels) as ImportDelimiter[]).map((d) => (
+                        <SelectItem key={d} value={d}>
+                          {d === 'auto' ? `${delimiterLabels.auto} (${delimiterLabels[usedDelimiter]})` : delimiterLabels[d]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <label className="flex items-center gap-2 text-sm cursor-pointer sm:pt-6">
+                  <Checkbox checked={hasHeader} onCheckedChange={(checked) => setHasHeader(checked === true)} />
+                  Первая строка — заголовки
+                </label>
+              </div>
+
+              {/* Column mapping */}
+              <div className="space-y-2">
+                <Label>Соответствие столбцов</Label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {columnMapping.map((field, column) => (
+                    <div key={column} className="flex items-center gap-2 rounded-lg border p-2">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{header[column] || `Столбец ${column + 1}`}</p>
+                        <p className="text-xs text-muted-foreground truncate">{sample[column] || '—'}</p>
+                      </div>
+                      <Select value={field} onValueChange={(v) => setColumnField(column, v as ImportField)}>
+                        <SelectTrigger className="w-44">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {IMPORT_FIELDS.map((f) => (
+                            <SelectItem key={f} value={f}>{importFieldLabels[f]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+                {!nameMapped && (
+                  <p className="text-sm text-destructive">Укажите столбец с ФИО или с фамилией и именем</p>
+                )}
+              </div>
+
+              {/* Preview */}
+              {nameMapped && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <Label>
+                      Предпросмотр: к импорту {importable.length} из {preview.length}
+                    </Label>
+                    <label className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox checked={skipDuplicates} onCheckedChange={(checked) => setSkipDuplicates(checked === true)} />
+                      Пропускать повторы
+                    </label>
+                  </div>
+                  <div className="max-h-72 overflow-auto rounded-lg border">
+                    <table className="w-full text-sm">
+                      <thead className="bg-muted sticky top-0">
+                        <tr>
+                          <th className="px-2 py-1 text-left font-medium w-12">№</th>
+                          <th className="px-2 py-1 text-left font-medium">Гость</th>
+                          <th className="px-2 py-1 text-left font-medium">Группа</th>
+                          <th className="px-2 py-1 text-left font-medium">Замечания</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {preview.slice(0, PREVIEW_LIMIT).map((row) => {
+                          const duplicate = duplicateByLine.get(row.line);
+                          const skipped = skipDuplicates && !!duplicate && isCertainDuplicate(duplicate.reason);
+                          return (
+                            <tr key={row.line} className={`border-t ${row.record ? '' : 'bg-destructive/5'} ${skipped ? 'text-muted-foreground' : ''}`}>
+                              <td className="px-2 py-1 text-muted-foreground">{row.line}</td>
+                              <td className="px-2 py-1">
+                                <span className="flex items-center gap-1.5">
+                                  {row.record
+                                    ? <CheckCircle2 className="w-3.5 h-3.5 text-primary flex-shrink-0" />
+                                    : <XCircle className="w-3.5 h-3.5 text-destructive flex-shrink-0" />}
+                                  {row.record
+                                    ? formatFullName(row.record)
+                                    : '—'}
+                                </span>
+                              </td>
+                              <td className="px-2 py-1 text-muted-foreground">{row.record?.groupName}</td>
+                              <td className="px-2 py-1 text-xs">
+                                {row.errors.map((error) => (
+                                  <p key={error} className="text-destructive">{error}</p>
+                                ))}
+                                {duplicate && (
+                                  <p className="text-muted-foreground flex items-center gap-1">
+                                    <AlertTriangle className="w-3 h-3 text-amber-500 flex-shrink-0" />
+                                    {duplicate.inBatch ? 'Повтор строки' : 'Уже в списке'}: {duplicate.name} ({duplicateReasonLabels[duplicate.reason]})
+                                  </p>
+                                )}
+                                {row.warnings.map((warning) => (
+                                  <p key={warning} className="text-muted-foreground flex items-center gap-1">
+                                    <AlertTriangle className="w-3 h-3 text-amber-500 flex-shrink-0" />
+                                    {warning}
+                                  </p>
+                                ))}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                  {preview.length > PREVIEW_LIMIT && (
+                    <p className="text-xs text-muted-foreground">Показаны первые {PREVIEW_LIMIT} строк</p>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Отмена
+          </Button>
+          <Button onClick={handleImport} disabled={!nameMapped || importable.length === 0}>
+            Импортировать ({importable.length})
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,84 @@
+import type { DietaryRestriction, GuestDiet, MealType } from '@/types';
+import { DIETARY_RESTRICTIONS, MEAL_TYPES, dietaryIcons, dietaryLabels, mealIcons, mealLabels } from '@/lib/dietary';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface DietaryEditorProps {
+  value: GuestDiet;
+  onChange: (diet: GuestDiet) => void;
+}
+
+export function DietaryEditor({ value, onChange }: DietaryEditorProps) {
+  const dietary = value.dietary || [];
+
+  const toggleRestriction = (restriction: DietaryRestriction) => {
+    const next = dietary.includes(restriction)
+      ? dietary.filter((d) => d !== restriction)
+      : [...dietary, restriction];
+    onChange({ ...value, dietary: next.length > 0 ? next : undefined });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label>Питание</Label>
+        <Select
+          value={value.meal ?? 'standard'}
+          onValueChange={(v) => onChange({ ...value, meal: v === 'standard' ? undefined : v as MealType })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MEAL_TYPES.map((meal) => {
+              const Icon = mealIcons[meal];
+              return (
+                <SelectItem key={meal} value={meal}>
+                  <Icon className="w-4 h-4" />
+                  {mealLabels[meal]}
+                </SelectItem>
+              );
+            })}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Ограничения</Label>
+        <div className="flex flex-wrap gap-x-4 gap-y-2">
+          {DIETARY_RESTRICTIONS.map((restriction) => {
+            const Icon = dietaryIcons[restriction];
+            return (
+              <label key={restriction} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={dietary.includes(restriction)}
+                  onCheckedChange={() => toggleRestriction(restriction)}
+                />
+                <Icon className="w-4 h-4 text-muted-foreground" />
+                {dietaryLabels[restriction]}
+              </label>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Аллергии и пожелания</Label>
+        <Textarea
+          value={value.dietaryNotes ?? ''}
+          onChange={(e) => onChange({ ...value, dietaryNotes: e.target.value || undefined })}
+          placeholder="Например: аллергия на морепродукты"
+          rows={2}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useMemo, useState } from 'react';
+import type { Guest } from '@/types';
+import { useSeatingStore } from '@/hooks/useSeatingStore';
+import { duplicatePairKey, duplicateReasonLabels, findDuplicatePairs } from '@/lib/duplicates';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+
+export function DuplicatesDialog() {
+  const guests = useSeatingStore((state) => state.guests);
+  const tables = useSeatingStore((state) => state.tables);
+  const groups = useSeatingStore((state) => state.groups);
+  const mergeGuests = useSeatingStore((state) => state.mergeGuests);
+  const [isOpen, setIsOpen] = useState(false);
+  // Pairs marked "not a duplicate" stay hidden until the page is reloaded
+  const [dismissed, setDismissed] = useState<string[]>([]);
+
+  // Every pair of names is compared, so this only reruns when the guest list itself changes
+  const allPairs = useMemo(() => findDuplicatePairs(guests), [guests]);
+  const pairs = allPairs.filter((pair) => !dismissed.includes(duplicatePairKey(pair)));
+  if (pairs.length === 0 && !isOpen) return null;
+
+  const tableNameByGuest = new Map<string, string>();
+  tables.forEach((table) => table.seats.forEach((seat) => {
+    if (seat.guestId) tableNameByGuest.set(seat.guestId, table.name);
+  }));
+
+  const describe = (guest: Guest) => [
+    tableNameByGuest.get(guest.id) ?? 'без места',
+    groups.find((g) => g.id === guest.groupId)?.name,
+    guest.tags?.join(', '),
+  ].filter(Boolean).join(' · ');
+
+  const handleMerge = (keep: Guest, remove: Guest) => {
+    mergeGuests(keep.id, remove.id);
+    toast.success(`Гости объединены: ${keep.fullName}`);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <button
+        type="button"
+        className="flex items-center gap-1.5 text-xs text-amber-600 hover:underline"
+        onClick={() => setIsOpen(true)}
+      >
+        <AlertTriangle className="w-3.5 h-3.5" />
+        Возможные дубликаты: {pairs.length}
+      </button>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Возможные дубликаты</DialogTitle>
+          <DialogDescription>
+            При объединении остаётся выбранный гость: он получает теги, питание и место второго, если своего места нет
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {pairs.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">Дубликатов не осталось</p>
+          )}
+          {pairs.map((pair) => (
+            <div key={duplicatePairKey(pair)} className="rounded-lg border p-3 space-y-2">
+              <p className="text-xs text-muted-foreground">{duplicateReasonLabels[pair.reason]}</p>
+              <div className="grid grid-cols-2 gap-3">
+                {[pair.a, pair.b].map((guest) => (
+                  <div key={guest.id} className="min-w-0">
+                    <p className="text-sm font-medium truncate">{guest.fullName}</p>
+                    <p className="text-xs text-muted-foreground truncate">{describe(guest)}</p>
+                  </div>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" variant="outline" onClick={() => handleMerge(pair.a, pair.b)}>
+                  Оставить первого
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => handleMerge(pair.b, pair.a)}>
+                  Оставить второго
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="ml-auto"
+                  onClick={() => setDismissed([...dismissed, duplicatePairKey(pair)])}
+                >
+                  Не дубликат
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import type { Guest, NameOrder } from '@/types';
+import { useSeatingStore } from '@/hooks/useSeatingStore';
+import { duplicateReasonLabels, findDuplicateOf } from '@/lib/duplicates';
+import { formatFullName, getNameOrder, nameOrderLabels } from '@/lib/guestNames';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertTriangle } from 'lucide-react';
+
+interface EditGuestDialogProps {
+  guest: Guest;
+  onClose: () => void; // The dialog is mounted while open, so the form starts from the current guest
+}
+
+type GuestForm = Record<'lastName' | 'firstName' | 'middleName' | 'prefix' | 'suffix' | 'phone' | 'email' | 'notes', string> & {
+  nameOrder: NameOrder;
+};
+
+const toForm = (guest: Guest): GuestForm => ({
+  lastName: guest.lastName,
+  firstName: guest.firstName,
+  middleName: guest.middleName ?? '',
+  prefix: guest.prefix ?? '',
+  suffix: guest.suffix ?? '',
+  nameOrder: getNameOrder(guest),
+  phone: guest.phone ?? '',
+  email: guest.email ?? '',
+  notes: guest.notes ?? '',
+});
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Name, contacts and notes of one guest. The seat assignment is not touched
+export function EditGuestDialog({ guest, onClose }: EditGuestDialogProps) {
+  const guests = useSeatingStore((state) => state.guests);
+  const updateGuest = useSeatingStore((state) => state.updateGuest);
+  const [form, setForm] = useState<GuestForm>(() => toForm(guest));
+
+  const field = (key: keyof GuestForm) => ({
+    value: form[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setForm({ ...form, [key]: e.target.value }),
+  });
+
+  const emailInvalid = !!form.email.trim() && !EMAIL_PATTERN.test(form.email.trim());
+  const duplicate = form.firstName.trim()
+    ? findDuplicateOf(form, guests.filter((g) => g.id !== guest.id))
+    : undefined;
+
+  const handleSave = () => {
+    updateGuest(guest.id, form);
+    onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      {/* Also rendered inside seats on the canvas: keep clicks away from the seat and the table drag */}
+      <DialogContent onClick={(e) => e.stopPropagation()} onMouseDown={(e) => e.stopPropagation()} className="max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Гость</DialogTitle>
+          <DialogDescription>{formatFullName(form) || guest.fullName}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Фамилия</Label>
+              <Input {...field('lastName')} />
+            </div>
+            <div className="space-y-1">
+              <Label>Имя *</Label>
+              <Input {...field('firstName')} autoFocus />
+            </div>
+            <div className="space-y-1">
+              <Label>Отчество / второе имя</Label>
+              <Input {...field('middleName')} />
+            </div>
+            <div className="space-y-1">
+              <Label>Порядок имени</Label>
+              <Select value={form.nameOrder} onValueChange={(v) => setForm({ ...form, nameOrder: v as NameOrder })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(['surname-first', 'given-first'] as NameOrder[]).map((order) => (
+                    <SelectItem key={order} value={order}>{nameOrderLabels[order]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Титул</Label>
+              <Input {...field('prefix')} placeholder="Dr., проф." />
+            </div>
+            <div className="space-y-1">
+              <Label>Суффикс</Label>
+              <Input {...field('suffix')} placeholder="Jr., III" />
+            </div>
+          </div>
+
+          {duplicate && (
+            <div className="flex items-start gap-2 p-2 rounded-lg border border-amber-300 bg-amber-50 text-xs text-amber-900">
+              <AlertTriangle className="w-4 h-4 text-amber-500 flex-shrink-0" />
+              <span>
+                Похожий гость уже есть в списке: <strong>{duplicate.guest.fullName}</strong> ({duplicateReasonLabels[duplicate.reason]})
+              </span>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Телефон</Label>
+              <Input {...field('phone')} type="tel" placeholder="+7 900 000-00-00" />
+            </div>
+            <div className="space-y-1">
+              <Label>Email</Label>
+              <Input {...field('email')} type="email" placeholder="guest@example.com" aria-invalid={emailInvalid} />
+              {emailInvalid && <p className="text-xs text-destructive">Неверный адрес</p>}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Заметки</Label>
+            <Textarea {...field('notes')} rows={3} placeholder="Подарок, трансфер, кого встретить…" />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Отмена
+          </Button>
+          <Button onClick={handleSave} disabled={!form.firstName.trim() || emailInvalid}>
+            Сохранить
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
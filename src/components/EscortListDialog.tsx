@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { useSeatingStore } from '@/hooks/useSeatingStore';
+import { buildEscortList, escortListToRows, type EscortEntry } from '@/lib/escortList';
+import { dateStamp, downloadCsv } from '@/lib/download';
+import { escapeHtml, printHtml } from '@/lib/print';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { BookUser, FileSpreadsheet, Printer } from 'lucide-react';
+
+const COLUMN_OPTIONS = [2, 3, 4];
+
+const ESCORT_PRINT_STYLES = `
+  .escort { column-gap: 24px; }
+  .escort h2 { font-size: 16px; margin: 8px 0 4px; border-bottom: 1px solid #999; break-after: avoid; }
+  .escort p { margin: 0 0 3px; break-inside: avoid; display: flex; gap: 6px; }
+  .escort .name { flex: 1; }
+  .escort .place { font-weight: 600; white-space: nowrap; }
+  .escort .unassigned { color: #b45309; font-weight: 400; font-style: italic; }
+`;
+
+const formatPlace = (entry: EscortEntry) =>
+  entry.tableName ? `${entry.tableName}${entry.seatNumber ? `, место ${entry.seatNumber}` : ''}` : 'без места';
+
+export function EscortListDialog() {
+  const tables = useSeatingStore((state) => state.tables);
+  const guests = useSeatingStore((state) => state.guests);
+  const [includeUnassigned, setIncludeUnassigned] = useState(false);
+  const [fullNames, setFullNames] = useState(false);
+  const [columns, setColumns] = useState(3);
+
+  const groups = buildEscortList(tables, guests, { includeUnassigned, fullNames });
+  const entryCount = groups.reduce((sum, g) => sum + g.entries.length, 0);
+
+  const handleCsv = () => {
+    downloadCsv(escortListToRows(groups), `escort-list-${dateStamp()}.csv`);
+  };
+
+  const handlePrint = () => {
+    const body = groups.map((group) => `
+      <h2>${escapeHtml(group.letter)}</h2>
+      ${group.entries.map((entry) => `
+        <p><span class="name">${escapeHtml(entry.name)}</span><span class="place${entry.tableName ? '' : ' unassigned'}">${escapeHtml(formatPlace(entry))}</span></p>
+      `).join('')}
+    `).join('');
+
+    printHtml('Рассадка гостей', `
+      <h1>Найдите своё место</h1>
+      <div class="escort" style="columns: ${columns}">${body}</div>
+    `, ESCORT_PRINT_STYLES);
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2">
+          <BookUser className="w-4 h-4" />
+          Список у входа
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-4xl max-h-[85vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Список рассадки по алфавиту</DialogTitle>
+          <DialogDescription>Гость — стол — место, для стойки на входе</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <Checkbox checked={includeUnassigned} onCheckedChange={(checked) => setIncludeUnassigned(checked === true)} />
+            Включить гостей без места
+          </label>
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <Checkbox checked={fullNames} onCheckedChange={(checked) => setFullNames(checked === true)} />
+            Полные имена
+          </label>
+          <div className="flex items-center gap-2 ml-auto">
+            <Label>Колонок при печати</Label>
+            <Select value={String(columns)} onValueChange={(v) => setColumns(Number(v))}>
+              <SelectTrigger className="w-20">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COLUMN_OPTIONS.map((count) => (
+                  <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {entryCount === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">Нет рассаженных гостей</p>
+        ) : (
+          <div className="gap-6 text-sm" style={{ columns }}>
+            {groups.map((group) => (
+              <div key={group.letter} className="mb-3">
+                <h3 className="font-semibold border-b mb-1 break-after-avoid">{group.letter}</h3>
+                {group.entries.map((entry) => (
+                  <p key={entry.guestId} className="flex gap-2 break-inside-avoid">
+                    <span className="flex-1 truncate">{entry.name}</span>
+                    <span className={entry.tableName ? 'font-medium whitespace-nowrap' : 'italic text-amber-600 whitespace-nowrap'}>
+                      {formatPlace(entry)}
+                    </span>
+                  </p>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" className="gap-2" onClick={handleCsv} disabled={entryCount === 0}>
+            <FileSpreadsheet className="w-4 h-4" />
+            CSV
+          </Button>
+          <Button variant="outline" size="sm" className="gap-2" onClick={handlePrint} disabled={entryCount === 0}>
+            <Printer className="w-4 h-4" />
+            Печать
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import type { EventDetails } from '@/types';
+import { getEventLayout, useSeatingStore } from '@/hooks/useSeatingStore';
+import { describeEvent } from '@/lib/events';
+import { downloadLayoutFile } from '@/lib/layoutSchema';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { CalendarDays, Check, ChevronDown, Copy, Download, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface EventSwitcherProps {
+  onSwitch: () => void; // The canvas selection belongs to the previous plan
+}
+
+interface EventDetailsDialogProps {
+  title: string;
+  initial: EventDetails;
+  submitLabel: string;
+  onSubmit: (details: EventDetails) => void;
+  onClose: () => void;
+}
+
+// Mounted only while open, so the form starts from `initial` every time
+function EventDetailsDialog({ title, initial, submitLabel, onSubmit, onClose }: EventDetailsDialogProps) {
+  const [name, setName] = useState(initial.name);
+  const [date, setDate] = useState(initial.date ?? '');
+  const [venue, setVenue] = useState(initial.venue ?? '');
+
+  const handleSubmit = () => {
+    if (!name.trim()) return;
+    onSubmit({ name: name.trim(), date: date || undefined, venue: venue.trim() || undefined });
+    onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>У каждого мероприятия свои столы, гости и настройки</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="event-name">Название</Label>
+            <Input
+              id="event-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+              placeholder="Свадьба Ивановых"
+              autoFocus
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="event-date">Дата</Label>
+              <Input id="event-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="event-venue">Место проведения</Label>
+              <Input id="event-venue" value={venue} onChange={(e) => setVenue(e.target.value)} placeholder="Ресторан, зал" />
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Отмена</Button>
+          <Button onClick={handleSubmit} disabled={!name.trim()}>{submitLabel}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Event picker in the header with create, rename, duplicate, export and delete
+export function EventSwitcher({ onSwitch }: EventSwitcherProps) {
+  const event = useSeatingStore((state) => state.event);
+  const activeEventId = useSeatingStore((state) => state.activeEventId);
+  const eventIds = useSeatingStore((state) => state.eventIds);
+  const storedEvents = useSeatingStore((state) => state.storedEvents);
+  const createEvent = useSeatingStore((state) => state.createEvent);
+  const switchEvent = useSeatingStore((state) => state.switchEvent);
+  const duplicateEvent = useSeatingStore((state) => state.duplicateEvent);
+  const updateEventDetails = useSeatingStore((state) => state.updateEventDetails);
+  const deleteEvent = useSeatingStore((state) => state.deleteEvent);
+  const [dialog, setDialog] = useState<'create' | 'edit' | 'delete' | null>(null);
+
+  const events = eventIds.map((id) => ({ id, details: id === activeEventId ? event : storedEvents[id]?.event }));
+  const subtitle = describeEvent(event);
+
+  const handleSwitch = (eventId: string) => {
+    if (eventId === activeEventId) return;
+    switchEvent(eventId);
+    onSwitch();
+  };
+
+  const handleDuplicate = () => {
+    duplicateEvent(activeEventId);
+    onSwitch();
+    toast.success('Мероприятие скопировано');
+  };
+
+  const handleExport = () => {
+    const layout = getEventLayout(useSeatingStore.getState(), activeEventId);
+    if (!layout) return;
+    downloadLayoutFile(layout);
+    toast.success('План мероприятия экспортирован');
+  };
+
+  const handleDelete = () => {
+    const name = event.name;
+    deleteEvent(activeEventId);
+    onSwitch();
+    setDialog(null);
+    toast.success(`Мероприятие «${name}» удалено`);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="gap-2 h-auto py-1 max-w-72">
+            <CalendarDays className="w-4 h-4 flex-shrink-0" />
+            <span className="flex flex-col items-start min-w-0">
+              <span className="truncate max-w-56 font-medium">{event.name}</span>
+              {subtitle && <span className="truncate max-w-56 text-xs text-muted-foreground font-normal">{subtitle}</span>}
+            </span>
+            <ChevronDown className="w-4 h-4 flex-shrink-0 text-muted-foreground" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-72">
+          <DropdownMenuLabel>Мероприятия</DropdownMenuLabel>
+          {events.map(({ id, details }) => details && (
+            <DropdownMenuItem key={id} onClick={() => handleSwitch(id)}>
+              <Check className={`w-4 h-4 ${id === activeEventId ? '' : 'invisible'}`} />
+              <span className="flex flex-col min-w-0">
+                <span className="truncate">{details.name}</span>
+                {describeEvent(details) && <span className="truncate text-xs text-muted-foreground">{describeEvent(details)}</span>}
+              </span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setDialog('create')}>
+            <Plus className="w-4 h-4" />
+            Новое мероприятие…
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setDialog('edit')}>
+            <Pencil className="w-4 h-4" />
+            Переименовать…
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleDuplicate}>
+            <Copy className="w-4 h-4" />
+            Дублировать
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleExport}>
+            <Download className="w-4 h-4" />
+            Экспорт мероприятия
+          </DropdownMenuItem>
+          <DropdownMenuItem variant="destructive" disabled={eventIds.length <= 1} onClick={() => setDialog('delete')}>
+            <Trash2 className="w-4 h-4" />
+            Удалить…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {dialog === 'create' && (
+        <EventDetailsDialog
+          title="Новое мероприятие"
+          initial={{ name: '' }}
+          submitLabel="Создать"
+          onSubmit={(details) => {
+            createEvent(details);
+            onSwitch();
+          }}
+          onClose={() => setDialog(null)}
+        />
+      )}
+      {dialog === 'edit' && (
+        <EventDetailsDialog
+          title="Мероприятие"
+          initial={event}
+          submitLabel="Сохранить"
+          onSubmit={(details) => updateEventDetails(activeEventId, details)}
+          onClose={() => setDialog(null)}
+        />
+      )}
+
+      <Dialog open={dialog === 'delete'} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Удалить мероприятие?</DialogTitle>
+            <DialogDescription>
+              «{event.name}» будет удалено вместе со столами и гостями. Отменить это действие нельзя.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)}>Отмена</Button>
+            <Button variant="destructive" onClick={handleDelete}>Удалить</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,266 @@
+import { useState } from 'react';
+import { useSeatingStore } from '@/hooks/useSeatingStore';
+import {
+  PAPER_SIZES,
+  PLAN_SCALES,
+  buildFloorPlanExport,
+  planNameModeLabels,
+  type FloorPlanExportOptions,
+  type PaperSize,
+  type PlanNameMode,
+} from '@/lib/floorPlanExport';
+import type { SheetOrientation } from '@/lib/placeCards';
+import { canvasToBlob, renderSvgToCanvas, svgDocument, svgPagesToPdf } from '@/lib/svgImage';
+import { dateStamp, downloadBlob } from '@/lib/download';
+import { formatEventDate } from '@/lib/events';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChevronLeft, ChevronRight, FileDown, FileImage } from 'lucide-react';
+import { toast } from 'sonner';
+
+const PNG_DPI_OPTIONS = [150, 300, 600];
+const MAX_PNG_SIDE = 12000; // Larger canvases fail to allocate in some browsers
+const MM_PER_INCH = 25.4;
+
+const orientationLabels: Record<SheetOrientation, string> = {
+  portrait: 'Книжная',
+  landscape: 'Альбомная',
+};
+
+const svgDataUrl = (svg: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+const today = () => new Date().toLocaleDateString('ru-RU', { day: 'numeric', month: 'long', year: 'numeric' });
+
+export function FloorPlanExportDialog() {
+  const tables = useSeatingStore((state) => state.tables);
+  const venueObjects = useSeatingStore((state) => state.venueObjects);
+  const guests = useSeatingStore((state) => state.guests);
+  const groups = useSeatingStore((state) => state.groups);
+  const event = useSeatingStore((state) => state.event);
+  const [options, setOptions] = useState<FloorPlanExportOptions>(() => ({
+    title: 'План рассадки',
+    date: today(),
+    nameMode: 'initials',
+    showLegend: true,
+    paper: 'A4',
+    orientation: 'landscape',
+    scale: 'fit',
+  }));
+  const [pngDpi, setPngDpi] = useState(300);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [exporting, setExporting] = useState<'png' | 'pdf' | null>(null);
+
+  const setOption = <K extends keyof FloorPlanExportOptions>(key: K, value: FloorPlanExportOptions[K]) => {
+    setOptions({ ...options, [key]: value });
+    setPageIndex(0);
+  };
+
+  const plan = buildFloorPlanExport(tables, venueObjects, guests, groups, options);
+  const pages = plan?.pages ?? [];
+  const currentPage = pages[Math.min(pageIndex, pages.length - 1)];
+  const title = options.title.trim() || 'План рассадки';
+
+  // Title and date follow the active event each time the dialog opens
+  const handleOpenChange = (open: boolean) => {
+    if (!open) return;
+    setOptions({ ...options, title: event.name, date: formatEventDate(event.date) ?? today() });
+    setPageIndex(0);
+  };
+
+  const handleSvg = () => {
+    if (!plan) return;
+    downloadBlob(new Blob([svgDocument(plan.poster)], { type: 'image/svg+xml' }), `floor-plan-${dateStamp()}.svg`);
+  };
+
+  const handlePng = async () => {
+    if (!plan) return;
+    setExporting('png');
+    try {
+      const longestInches = Math.max(plan.poster.widthMm, plan.poster.heightMm) / MM_PER_INCH;
+      const dpi = Math.min(pngDpi, Math.floor(MAX_PNG_SIDE / longestInches));
+      const canvas = await renderSvgToCanvas(plan.poster, dpi);
+      downloadBlob(await canvasToBlob(canvas, 'image/png'), `floor-plan-${dateStamp()}.png`);
+      if (dpi < pngDpi) toast.info(`План слишком большой, PNG сохранён с разрешением ${dpi} dpi`);
+    } catch (error) {
+      toast.error('Не удалось создать PNG', { description: error instanceof Error ? error.message : undefined });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handlePdf = async () => {
+    setExporting('pdf');
+    try {
+      downloadBlob(await svgPagesToPdf(pages, title), `floor-plan-${dateStamp()}.pdf`);
+    } catch (error) {
+      toast.error('Не удалось создать PDF', { description: error instanceof Error ? error.message : undefined });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <FileImage className="w-4 h-4" />
+          Экспорт плана
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Экспорт плана зала</DialogTitle>
+          <DialogDescription>
+            Все столы с гостями и объекты зала в масштабе, независимо от текущего увеличения и прокрутки
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_320px] gap-6">
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1 col-span-2">
+                <Label>Заголовок</Label>
+                <Input value={options.title} onChange={(e) => setOption('title', e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>Дата</Label>
+                <Input value={options.date} onChange={(e) => setOption('date', e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>Гости на местах</Label>
+                <Select value={options.nameMode} onValueChange={(v) => setOption('nameMode', v as PlanNameMode)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(planNameModeLabels) as PlanNameMode[]).map((mode) => (
+                      <SelectItem key={mode} value={mode}>{planNameModeLabels[mode]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Лист</Label>
+                <Select value={options.paper} onValueChange={(v) => setOption('paper', v as PaperSize)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PAPER_SIZES) as PaperSize[]).map((paper) => (
+                      <SelectItem key={paper} value={paper}>{paper}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Ориентация</Label>
+                <Select value={options.orientation} onValueChange={(v) => setOption('orientation', v as SheetOrientation)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(orientationLabels) as SheetOrientation[]).map((orientation) => (
+                      <SelectItem key={orientation} value={orientation}>{orientationLabels[orientation]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Масштаб</Label>
+                <Select value={String(options.scale)} onValueChange={(v) => setOption('scale', v === 'fit' ? 'fit' : Number(v))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="fit">На один лист</SelectItem>
+                    {PLAN_SCALES.map((scale) => (
+                      <SelectItem key={scale} value={String(scale)}>1:{scale}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Разрешение PNG</Label>
+                <Select value={String(pngDpi)} onValueChange={(v) => setPngDpi(Number(v))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PNG_DPI_OPTIONS.map((dpi) => (
+                      <SelectItem key={dpi} value={String(dpi)}>{dpi} dpi</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <Checkbox checked={options.showLegend} onCheckedChange={(checked) => setOption('showLegend', checked === true)} />
+              Легенда категорий
+            </label>
+
+            <p className="text-sm text-muted-foreground">
+              {plan
+                ? `Масштаб 1:${plan.scale}, листов ${options.paper}: ${pages.length}${pages.length > 1 ? ` (${plan.columns} × ${plan.rows})` : ''}`
+                : 'План пуст'}
+            </p>
+          </div>
+
+          {/* Preview of one sheet */}
+          <div className="space-y-2">
+            <div className="border rounded-lg bg-muted/40 p-2 flex items-center justify-center min-h-48">
+              {currentPage ? (
+                <img src={svgDataUrl(svgDocument(currentPage))} alt="Предпросмотр листа" className="max-h-80 w-auto bg-white shadow" />
+              ) : (
+                <span className="text-sm text-muted-foreground">Нет листов</span>
+              )}
+            </div>
+            {pages.length > 1 && (
+              <div className="flex items-center justify-center gap-2 text-sm">
+                <Button variant="ghost" size="icon" className="h-7 w-7" disabled={pageIndex === 0} onClick={() => setPageIndex(pageIndex - 1)}>
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                Лист {Math.min(pageIndex, pages.length - 1) + 1} из {pages.length}
+                <Button variant="ghost" size="icon" className="h-7 w-7" disabled={pageIndex >= pages.length - 1} onClick={() => setPageIndex(pageIndex + 1)}>
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" className="gap-2" onClick={handleSvg} disabled={!plan}>
+            <FileDown className="w-4 h-4" />
+            SVG
+          </Button>
+          <Button variant="outline" size="sm" className="gap-2" onClick={handlePng} disabled={!plan || exporting !== null}>
+            <FileDown className="w-4 h-4" />
+            {exporting === 'png' ? 'Создание PNG…' : 'PNG'}
+          </Button>
+          <Button size="sm" className="gap-2" onClick={handlePdf} disabled={!plan || exporting !== null}>
+            <FileDown className="w-4 h-4" />
+            {exporting === 'pdf' ? 'Создание PDF…' : 'PDF'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
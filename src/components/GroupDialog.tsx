@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import type { GuestGroup, GuestGroupKind } from '@/types';
+import { useSeatingStore } from '@/hooks/useSeatingStore';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Check, Trash2 } from 'lucide-react';
+import { GROUP_COLORS, groupKindLabels } from '@/lib/guestGroups';
+
+interface GroupDialogProps {
+  group?: GuestGroup; // Edit this group; create a new one when omitted
+  children: React.ReactNode; // Trigger
+}
+
+export function GroupDialog({ group, children }: GroupDialogProps) {
+  const { guests, groups, addGroup, updateGroup, removeGroup } = useSeatingStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<GuestGroupKind>('family');
+  const [color, setColor] = useState(GROUP_COLORS[0]);
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) return;
+    setName(group?.name ?? '');
+    setKind(group?.kind ?? 'family');
+    setColor(group?.color ?? GROUP_COLORS[groups.length % GROUP_COLORS.length]);
+    setMemberIds(group ? guests.filter((g) => g.groupId === group.id).map((g) => g.id) : []);
+  };
+
+  const toggleMember = (guestId: string) =>
+    setMemberIds((ids) => ids.includes(guestId) ? ids.filter((id) => id !== guestId) : [...ids, guestId]);
+
+  const otherGroupName = (groupId?: string) =>
+    groupId && groupId !== group?.id ? groups.find((g) => g.id === groupId)?.name : undefined;
+
+  const handleSave = () => {
+    if (group) {
+      updateGroup(group.id, { name: name.trim(), kind, color }, memberIds);
+    } else {
+      addGroup({ name: name.trim(), kind, color }, memberIds);
+    }
+    setIsOpen(false);
+  };
+
+  const handleRemove = () => {
+    if (!group) return;
+    removeGroup(group.id);
+    setIsOpen(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-md max-h-[85vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>{group ? 'Редактировать группу' : 'Новая группа'}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 pt-2">
+          <div className="space-y-2">
+            <Label htmlFor="group-name">Название *</Label>
+            <Input
+              id="group-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Семья Ивановых"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Тип</Label>
+            <Select value={kind} onValueChange={(v) => setKind(v as GuestGroupKind)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(groupKindLabels) as GuestGroupKind[]).map((k) => (
+                  <SelectItem key={k} value={k}>{groupKindLabels[k]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Цвет</Label>
+            <div className="flex gap-2">
+              {GROUP_COLORS.map((c) => (
+                <button
+                  key={c}
+                  type="button"
+                  className="w-7 h-7 rounded-full flex items-center justify-center border-2 border-transparent data-[active=true]:border-foreground"
+                  data-active={c === color}
+                  style={{ backgroundColor: c }}
+                  onClick={() => setColor(c)}
+                >
+                  {c === color && <Check className="w-4 h-4 text-white" />}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Участники ({memberIds.length})</Label>
+            <div className="max-h-48 overflow-auto space-y-1 rounded-lg border p-2">
+              {guests.length === 0 && (
+                <p className="text-xs text-muted-foreground">Нет гостей</p>
+              )}
+              {guests.map((guest) => {
+                const otherGroup = otherGroupName(guest.groupId);
+                return (
+                  <label key={guest.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={memberIds.includes(guest.id)}
+                      onCheckedChange={() => toggleMember(guest.id)}
+                    />
+                    <span className="flex-1 truncate">{guest.fullName}</span>
+                    {otherGroup && (
+                      <span className="text-xs text-muted-foreground truncate max-w-[40%]" title="Гость будет перенесён из этой группы">
+                        {otherGroup}
+                      </span>
+                    )}
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          {group ? (
+            <Button variant="outline" className="gap-2 text-destructive" onClick={handleRemove}>
+              <Trash2 className="w-4 h-4" />
+              Удалить группу
+            </Button>
+          ) : <span />}
+          <Button onClick={handleSave} disabled={!name.trim()}>
+            {group ? 'Сохранить' : 'Создать'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
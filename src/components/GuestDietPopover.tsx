@@ -0,0 +1,38 @@
+import type { Guest } from '@/types';
+import { useSeatingStore } from '@/hooks/useSeatingStore';
+import { hasSpecialDiet } from '@/lib/dietary';
+import { DietaryEditor } from '@/components/DietaryEditor';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Utensils } from 'lucide-react';
+
+interface GuestDietPopoverProps {
+  guest: Guest;
+}
+
+export function GuestDietPopover({ guest }: GuestDietPopoverProps) {
+  const setGuestDiet = useSeatingStore((state) => state.setGuestDiet);
+  const special = hasSpecialDiet(guest);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={`h-7 w-7 transition-opacity data-[state=open]:opacity-100 ${special ? '' : 'opacity-0 group-hover:opacity-100'}`}
+          title="Питание"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <Utensils className={`w-3 h-3 ${special ? 'text-primary' : ''}`} />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80">
+        <DietaryEditor
+          value={{ meal: guest.meal, dietary: guest.dietary, dietaryNotes: guest.dietaryNotes }}
+          onChange={(diet) => setGuestDiet(guest.id, diet)}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,9 +1,10 @@
-import { useState } from 'react';
-import type { Guest } from '@/types';
+import { useMemo, useState } from 'react';
+import type { Guest, GuestDetails, GuestDiet, GuestGroup, RsvpStatus } from '@/types';
 import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { User, Search, Upload, Plus, Trash2, GripVertical } from 'lucide-react';
+import { User, Search, Upload, Plus, Trash2, GripVertical, Users, Pencil, ChevronRight, AlertTriangle } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -12,60 +13,46 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { GroupDialog } from '@/components/GroupDialog';
+import { GuestTagsPopover } from '@/components/GuestTagsPopover';
+import { GuestDietPopover } from '@/components/GuestDietPopover';
+import { DietaryEditor } from '@/components/DietaryEditor';
+import { RsvpBadge } from '@/components/RsvpBadge';
+import { CsvImportDialog } from '@/components/CsvImportDialog';
+import { DuplicatesDialog } from '@/components/DuplicatesDialog';
+import { EditGuestDialog } from '@/components/EditGuestDialog';
+import { AddCompanionMenu, CompanionNamePopover } from '@/components/CompanionControls';
+import { useSeatingStore } from '@/hooks/useSeatingStore';
+import { groupKindLabels } from '@/lib/guestGroups';
+import { collectTags, hasAllTags } from '@/lib/guestTags';
+import { companionKindLabels } from '@/lib/companions';
+import { duplicateReasonLabels, findBatchDuplicates, findDuplicateOf, isCertainDuplicate } from '@/lib/duplicates';
+import { formatFullName, getInitials, getInitialsName, getShortName, parseGuestName } from '@/lib/guestNames';
+import { RSVP_STATUSES, countByRsvp, getRsvp, rsvpBadgeClasses, rsvpLabels } from '@/lib/rsvp';
+import { toast } from 'sonner';
 
 interface GuestListProps {
   guests: Guest[];
+  groups: GuestGroup[];
   unassignedGuests: string[];
-  onAddGuest: (firstName: string, lastName: string, middleName?: string) => void;
+  onAddGuest: (firstName: string, lastName: string, middleName?: string, details?: GuestDetails) => void;
   onRemoveGuest: (guestId: string) => void;
-  onImportGuests: (names: string[]) => void;
+  onImportGuests: (names: string[], skipDuplicates?: boolean) => { imported: number; skipped: number };
   onDragStart: (guest: Guest) => void;
 }
 
-// Format: ИФ (First Name initial + Last Name initial)
-const getInitialsIF = (guest: Guest): string => {
-  const firstInitial = guest.firstName.charAt(0).toUpperCase();
-  const lastInitial = guest.lastName.charAt(0).toUpperCase();
-  return `${firstInitial}${lastInitial}`;
-};
-
-// Format: И.О.Фамилия for tooltip
-const getFullNameWithInitials = (guest: Guest): string => {
-  const firstInitial = guest.firstName.charAt(0).toUpperCase();
-  
-  if (guest.middleName && guest.middleName.trim()) {
-    const middleInitial = guest.middleName.charAt(0).toUpperCase();
-    return `${firstInitial}.${middleInitial}.${guest.lastName}`;
-  }
-  
-  if (guest.lastName) {
-    return `${firstInitial}.${guest.lastName}`;
-  }
-  
-  return guest.firstName;
-};
-
-// Format for display: "Фамилия И." or "Фамилия И.О."
-const getDisplayName = (guest: Guest): string => {
-  if (!guest.lastName) {
-    return guest.firstName;
-  }
-  
-  const firstInitial = guest.firstName.charAt(0).toUpperCase();
-  
-  if (guest.middleName && guest.middleName.trim()) {
-    const middleInitial = guest.middleName.charAt(0).toUpperCase();
-    return `${guest.lastName} ${firstInitial}.${middleInitial}.`;
-  }
-  
-  return `${guest.lastName} ${firstInitial}.`;
-};
-
-function DraggableGuestItem({ guest, onRemove, onDragStart }: { 
+const stopPropagation = (e: React.SyntheticEvent) => e.stopPropagation();
+
+function DraggableGuestItem({ guest, group, primary, onRemove, onDragStart }: { 
   guest: Guest; 
+  group?: GuestGroup;
+  primary?: Guest; // Set for companions
   onRemove: () => void;
   onDragStart: (guest: Guest) => void;
 }) {
+  const [isEditing, setIsEditing] = useState(false);
+
   const handleDragStart = (e: React.DragEvent) => {
     e.dataTransfer.effectAllowed = 'move';
     e.dataTransfer.setData('application/json', JSON.stringify({ 
@@ -79,20 +66,71 @@ function DraggableGuestItem({ guest, onRemove, onDragStart }: {
     <div
       draggable
       onDragStart={handleDragStart}
+      onDoubleClick={() => setIsEditing(true)}
       className="flex items-center gap-2 p-2 rounded-lg bg-card border hover:border-primary/50 transition-colors group select-none cursor-grab active:cursor-grabbing"
-      title={getFullNameWithInitials(guest)}
+      title={getInitialsName(guest)}
     >
       <div className="p-1 hover:bg-muted rounded">
         <GripVertical className="w-4 h-4 text-muted-foreground" />
       </div>
-      <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center flex-shrink-0 pointer-events-none">
-        <span className="text-xs font-medium text-primary">
-          {getInitialsIF(guest)}
+      <div
+        className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center flex-shrink-0 pointer-events-none"
+        style={guest.categoryColor ? { backgroundColor: guest.categoryColor } : undefined}
+      >
+        <span className={`text-xs font-medium ${guest.categoryColor ? 'text-white' : 'text-primary'}`}>
+          {getInitials(guest)}
         </span>
       </div>
       <div className="flex-1 min-w-0 pointer-events-none">
-        <p className="text-sm font-medium truncate">{getDisplayName(guest)}</p>
+        <p className={`text-sm font-medium truncate ${guest.placeholder ? 'italic text-muted-foreground' : ''}`}>
+          {getShortName(guest)}
+        </p>
+        {primary && (
+          <p className="text-xs text-muted-foreground truncate">
+            {companionKindLabels[guest.companionKind ?? 'plus-one']} · {getShortName(primary)}
+          </p>
+        )}
+        {guest.tags && guest.tags.length > 0 && (
+          <p className="text-xs text-muted-foreground truncate">{guest.tags.join(', ')}</p>
+        )}
       </div>
+      {group && (
+        <span
+          className="w-2.5 h-2.5 rounded-full flex-shrink-0"
+          style={{ backgroundColor: group.color }}
+          title={group.name}
+        />
+      )}
+      {guest.placeholder && <CompanionNamePopover guest={guest} />}
+      <RsvpBadge guest={guest} />
+      <GuestDietPopover guest={guest} />
+      <GuestTagsPopover guest={guest} />
+      {!guest.companionOf && <AddCompanionMenu guest={guest} />}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity"
+        title="Редактировать"
+        onClick={(e) => {
+          e.stopPropagation();
+          setIsEditing(true);
+        }}
+      >
+        <Pencil className="w-3 h-3" />
+      </Button>
+      {/* The dialog is portalled, but its React events still bubble through this draggable row:
+          selecting text would start a guest drag and a double click would reopen the dialog */}
+      {isEditing && (
+        <div
+          className="contents"
+          onClick={stopPropagation}
+          onMouseDown={stopPropagation}
+          onDoubleClick={stopPropagation}
+          onDragStart={stopPropagation}
+        >
+          <EditGuestDialog guest={guest} onClose={() => setIsEditing(false)} />
+        </div>
+      )}
       <Button
         variant="ghost"
         size="icon"
@@ -108,8 +146,79 @@ function DraggableGuestItem({ guest, onRemove, onDragStart }: {
   );
 }
 
+// Collapsed group row: dragging it seats all members at adjacent seats
+function DraggableGroupItem({ group, members, unassignedGuests }: {
+  group: GuestGroup;
+  members: Guest[];
+  unassignedGuests: string[];
+}) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const seatedCount = members.filter((m) => !unassignedGuests.includes(m.id)).length;
+
+  const handleDragStart = (e: React.DragEvent) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('application/json', JSON.stringify({
+      type: 'group',
+      groupId: group.id
+    }));
+  };
+
+  return (
+    <div className="rounded-lg bg-card border hover:border-primary/50 transition-colors">
+      <div
+        draggable={members.length > 0}
+        onDragStart={handleDragStart}
+        className="flex items-center gap-2 p-2 group select-none cursor-grab active:cursor-grabbing"
+      >
+        <button
+          type="button"
+          className="p-1 hover:bg-muted rounded"
+          onClick={() => setIsExpanded(!isExpanded)}
+        >
+          <ChevronRight className={`w-4 h-4 text-muted-foreground transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+        </button>
+        <div
+          className="w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 pointer-events-none"
+          style={{ backgroundColor: group.color }}
+        >
+          <Users className="w-4 h-4 text-white" />
+        </div>
+        <div className="flex-1 min-w-0 pointer-events-none">
+          <p className="text-sm font-medium truncate">{group.name}</p>
+          <p className="text-xs text-muted-foreground">
+            {groupKindLabels[group.kind]} · рассажены {seatedCount} из {members.length}
+          </p>
+        </div>
+        <GroupDialog group={group}>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity"
+          >
+            <Pencil className="w-3 h-3" />
+          </Button>
+        </GroupDialog>
+      </div>
+      {isExpanded && (
+        <div className="px-3 pb-2 space-y-0.5">
+          {members.length === 0 && (
+            <p className="text-xs text-muted-foreground">В группе нет гостей</p>
+          )}
+          {members.map((member) => (
+            <p key={member.id} className="text-xs flex items-center gap-2">
+              <span className={`w-1.5 h-1.5 rounded-full ${unassignedGuests.includes(member.id) ? 'bg-muted-foreground/40' : 'bg-primary'}`} />
+              <span className="truncate">{getShortName(member)}</span>
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function GuestList({
   guests,
+  groups,
   unassignedGuests,
   onAddGuest,
   onRemoveGuest,
@@ -117,40 +226,100 @@ export function GuestList({
   onDragStart,
 }: GuestListProps) {
   const [searchQuery, setSearchQuery] = useState('');
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [rsvpFilter, setRsvpFilter] = useState<RsvpStatus | null>(null);
+  const unseatDeclinedGuests = useSeatingStore((state) => state.unseatDeclinedGuests);
+  const nameOrder = useSeatingStore((state) => state.settings.nameOrder);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [newGuestFirstName, setNewGuestFirstName] = useState('');
   const [newGuestLastName, setNewGuestLastName] = useState('');
   const [newGuestMiddleName, setNewGuestMiddleName] = useState('');
+  const [newGuestPrefix, setNewGuestPrefix] = useState('');
+  const [newGuestSuffix, setNewGuestSuffix] = useState('');
+  const [newGuestDiet, setNewGuestDiet] = useState<GuestDiet>({});
   const [importText, setImportText] = useState('');
+  const [skipImportDuplicates, setSkipImportDuplicates] = useState(true);
 
   const unassignedGuestList = guests.filter((g) => unassignedGuests.includes(g.id));
   const assignedGuestList = guests.filter((g) => !unassignedGuests.includes(g.id));
 
-  const filteredUnassigned = unassignedGuestList.filter((g) =>
+  const groupById = new Map(groups.map((g) => [g.id, g]));
+  const guestById = new Map(guests.map((g) => [g.id, g]));
+  const companionCount = guests.filter((g) => g.companionOf).length;
+  const placeholderCount = guests.filter((g) => g.placeholder).length;
+
+  // Filters that no longer match any guest are ignored
+  const allTags = collectTags(guests);
+  const activeTags = tagFilter.filter((tag) => allTags.includes(tag));
+  const toggleTagFilter = (tag: string) =>
+    setTagFilter(activeTags.includes(tag) ? activeTags.filter((t) => t !== tag) : [...activeTags, tag]);
+  const matchesFilters = (g: Guest) => hasAllTags(g, activeTags) && (!rsvpFilter || getRsvp(g) === rsvpFilter);
+  const filteredAssigned = assignedGuestList.filter(matchesFilters);
+
+  const rsvpCounts = countByRsvp(guests);
+  const declinedSeatedCount = assignedGuestList.filter((g) => getRsvp(g) === 'declined').length;
+
+  const handleUnseatDeclined = () => {
+    const count = unseatDeclinedGuests();
+    toast.success(`Освобождено мест: ${count}`);
+  };
+
+  const filteredUnassigned = unassignedGuestList.filter(matchesFilters).filter((g) =>
     g.fullName.toLowerCase().includes(searchQuery.toLowerCase()) ||
     g.lastName.toLowerCase().includes(searchQuery.toLowerCase()) ||
     g.firstName.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  const newGuestDuplicate = newGuestFirstName.trim()
+    ? findDuplicateOf({ firstName: newGuestFirstName, lastName: newGuestLastName, middleName: newGuestMiddleName }, guests)
+    : undefined;
+
   const handleAddGuest = () => {
-    if (newGuestFirstName.trim() && newGuestLastName.trim()) {
+    // Single-name guests ("Madonna") have no surname
+    if (newGuestFirstName.trim()) {
       onAddGuest(
         newGuestFirstName.trim(), 
         newGuestLastName.trim(), 
-        newGuestMiddleName.trim() || undefined
+        newGuestMiddleName.trim() || undefined,
+        {
+          ...newGuestDiet,
+          dietaryNotes: newGuestDiet.dietaryNotes?.trim() || undefined,
+          prefix: newGuestPrefix.trim() || undefined,
+          suffix: newGuestSuffix.trim() || undefined,
+        }
       );
       setNewGuestFirstName('');
       setNewGuestLastName('');
       setNewGuestMiddleName('');
+      setNewGuestPrefix('');
+      setNewGuestSuffix('');
+      setNewGuestDiet({});
       setIsAddDialogOpen(false);
     }
   };
 
+  // Suspected repeats are listed before the import, the same way the CSV dialog shows them
+  const importNames = useMemo(
+    () => importText.split('\n').map((n) => n.trim()).filter(Boolean).map((n) => parseGuestName(n, nameOrder)),
+    [importText, nameOrder],
+  );
+  const importDuplicates = useMemo(
+    () => (isImportDialogOpen ? findBatchDuplicates(importNames, guests) : []),
+    [isImportDialogOpen, importNames, guests],
+  );
+  const importDuplicateRows = importNames.flatMap((name, i) => {
+    const duplicate = importDuplicates[i];
+    return duplicate ? [{ name: formatFullName(name), duplicate, line: i }] : [];
+  });
+
   const handleImport = () => {
     if (importText.trim()) {
       const names = importText.split('\n').filter((n) => n.trim());
-      onImportGuests(names);
+      const { imported, skipped } = onImportGuests(names, skipImportDuplicates);
+      toast.success(`Импортировано гостей: ${imported}`, {
+        description: skipped > 0 ? `пропущено повторов: ${skipped}` : undefined,
+      });
       setImportText('');
       setIsImportDialogOpen(false);
     }
@@ -166,6 +335,12 @@ export function GuestList({
             Гости
           </h2>
           <div className="flex gap-1">
+            <GroupDialog>
+              <Button variant="ghost" size="icon" className="h-8 w-8" title="Новая группа">
+                <Users className="w-4 h-4" />
+              </Button>
+            </GroupDialog>
+
             <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
               <DialogTrigger asChild>
                 <Button variant="ghost" size="icon" className="h-8 w-8">
@@ -178,7 +353,7 @@ export function GuestList({
                 </DialogHeader>
                 <div className="space-y-4 pt-4">
                   <div className="space-y-2">
-                    <label className="text-sm font-medium">Фамилия *</label>
+                    <label className="text-sm font-medium">Фамилия</label>
                     <Input
                       value={newGuestLastName}
                       onChange={(e) => setNewGuestLastName(e.target.value)}
@@ -201,10 +376,37 @@ export function GuestList({
                       placeholder="Иванович"
                     />
                   </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Титул</label>
+                      <Input
+                        value={newGuestPrefix}
+                        onChange={(e) => setNewGuestPrefix(e.target.value)}
+                        placeholder="Dr., проф."
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Суффикс</label>
+                      <Input
+                        value={newGuestSuffix}
+                        onChange={(e) => setNewGuestSuffix(e.target.value)}
+                        placeholder="Jr., III"
+                      />
+                    </div>
+                  </div>
+                  <DietaryEditor value={newGuestDiet} onChange={setNewGuestDiet} />
+                  {newGuestDuplicate && (
+                    <div className="flex items-start gap-2 p-2 rounded-lg border border-amber-300 bg-amber-50 text-xs text-amber-900">
+                      <AlertTriangle className="w-4 h-4 text-amber-500 flex-shrink-0" />
+                      <span>
+                        Похоже, гость уже есть в списке: <strong>{newGuestDuplicate.guest.fullName}</strong> ({duplicateReasonLabels[newGuestDuplicate.reason]})
+                      </span>
+                    </div>
+                  )}
                   <Button 
                     onClick={handleAddGuest} 
                     className="w-full"
-                    disabled={!newGuestFirstName.trim() || !newGuestLastName.trim()}
+                    disabled={!newGuestFirstName.trim()}
                   >
                     Добавить
                   </Button>
@@ -212,6 +414,8 @@ export function GuestList({
               </DialogContent>
             </Dialog>
 
+            <CsvImportDialog />
+
             <Dialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen}>
               <DialogTrigger asChild>
                 <Button variant="ghost" size="icon" className="h-8 w-8">
@@ -225,7 +429,10 @@ export function GuestList({
                 <div className="space-y-4 pt-4">
                   <p className="text-sm text-muted-foreground">
                     Введите имена гостей, каждое с новой строки.<br/>
-                    Формат: <strong>Фамилия Имя</strong> или <strong>Фамилия Имя Отчество</strong>
+                    {nameOrder === 'given-first' && <>Формат: <strong>Имя Фамилия</strong>, например John Smith</>}
+                    {nameOrder === 'surname-first' && <>Формат: <strong>Фамилия Имя</strong> или <strong>Фамилия Имя Отчество</strong></>}
+                    {nameOrder === 'auto' && <>Порядок определяется по отчеству и алфавиту: <strong>Петров Иван Иванович</strong>, <strong>Иван Иванович Петров</strong>, <strong>John Smith</strong></>}
+                    <br/>Титулы и суффиксы (Dr., Jr.) распознаются автоматически
                   </p>
                   <Textarea
                     value={importText}
@@ -233,6 +440,37 @@ export function GuestList({
                     placeholder="Иванов Иван&#10;Петров Петр Сергеевич&#10;Сидорова Анна"
                     rows={10}
                   />
+                  {importDuplicateRows.length > 0 && (
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between gap-3">
+                        <p className="text-sm font-medium">Похожие имена: {importDuplicateRows.length}</p>
+                        <label className="flex items-center gap-2 text-sm cursor-pointer">
+                          <Checkbox
+                            checked={skipImportDuplicates}
+                            onCheckedChange={(checked) => setSkipImportDuplicates(checked === true)}
+                          />
+                          Пропускать повторы
+                        </label>
+                      </div>
+                      <div className="max-h-40 overflow-auto rounded-lg border divide-y text-xs">
+                        {importDuplicateRows.map(({ name, duplicate, line }) => {
+                          const skipped = skipImportDuplicates && isCertainDuplicate(duplicate.reason);
+                          return (
+                            <div key={line} className={`px-2 py-1 ${skipped ? 'text-muted-foreground' : ''}`}>
+                              <p className="font-medium">
+                                {name}
+                                {skipped && <span className="font-normal"> — будет пропущен</span>}
+                              </p>
+                              <p className="text-muted-foreground flex items-center gap-1">
+                                <AlertTriangle className="w-3 h-3 text-amber-500 flex-shrink-0" />
+                                {duplicate.inBatch ? 'Повтор строки' : 'Уже в списке'}: {duplicate.name} ({duplicateReasonLabels[duplicate.reason]})
+                              </p>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
                   <Button onClick={handleImport} className="w-full">
                     Импортировать
                   </Button>
@@ -253,17 +491,97 @@ export function GuestList({
           />
         </div>
 
+        {/* Tag filters: a guest must have every selected tag */}
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {allTags.map((tag) => (
+              <Badge
+                key={tag}
+                variant={activeTags.includes(tag) ? 'default' : 'outline'}
+                className="cursor-pointer select-none"
+                onClick={() => toggleTagFilter(tag)}
+              >
+                {tag}
+              </Badge>
+            ))}
+            {activeTags.length > 0 && (
+              <button
+                type="button"
+                className="text-xs text-muted-foreground hover:text-foreground px-1"
+                onClick={() => setTagFilter([])}
+              >
+                Сбросить
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Stats */}
         <div className="flex gap-4 text-xs text-muted-foreground">
           <span>Всего: {guests.length}</span>
           <span>Не распределены: {unassignedGuestList.length}</span>
           <span>Рассажены: {assignedGuestList.length}</span>
         </div>
+        {companionCount > 0 && (
+          <div className="text-xs text-muted-foreground">
+            Из них спутников: {companionCount}
+            {placeholderCount > 0 && ` (без имени: ${placeholderCount})`}
+          </div>
+        )}
+        <DuplicatesDialog />
+
+        {/* RSVP counts double as a status filter */}
+        {guests.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {RSVP_STATUSES.map((status) => (
+              <button
+                key={status}
+                type="button"
+                className={`text-[11px] px-2 py-0.5 rounded-full border transition-opacity ${rsvpBadgeClasses[status]} ${rsvpFilter && rsvpFilter !== status ? 'opacity-40' : ''}`}
+                onClick={() => setRsvpFilter(rsvpFilter === status ? null : status)}
+              >
+                {rsvpLabels[status]}: {rsvpCounts[status]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {declinedSeatedCount > 0 && (
+          <div className="flex items-center gap-2 p-2 rounded-lg border border-destructive/40 bg-destructive/5 text-xs">
+            <AlertTriangle className="w-4 h-4 text-destructive flex-shrink-0" />
+            <span className="flex-1">Отказавшиеся гости занимают места: {declinedSeatedCount}</span>
+            <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={handleUnseatDeclined}>
+              Освободить
+            </Button>
+          </div>
+        )}
       </div>
 
       {/* Guest Lists */}
       <ScrollArea className="flex-1 h-full overflow-hidden">
         <div className="p-4 space-y-4 min-h-0">
+          {/* Groups */}
+          {groups.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                Группы ({groups.length})
+              </h3>
+              <p className="text-xs text-muted-foreground mb-2">
+                Перетащите группу на место — гости сядут рядом
+              </p>
+              <div className="space-y-1">
+                {groups.map((group) => (
+                  <DraggableGroupItem
+                    key={group.id}
+                    group={group}
+                    members={guests.filter((g) => g.groupId === group.id)}
+                    unassignedGuests={unassignedGuests}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Unassigned Guests */}
           {filteredUnassigned.length > 0 && (
             <div className="space-y-2">
@@ -278,6 +596,8 @@ export function GuestList({
                   <DraggableGuestItem
                     key={guest.id}
                     guest={guest}
+                    group={guest.groupId ? groupById.get(guest.groupId) : undefined}
+                    primary={guest.companionOf ? guestById.get(guest.companionOf) : undefined}
                     onRemove={() => onRemoveGuest(guest.id)}
                     onDragStart={onDragStart}
                   />
@@ -287,16 +607,18 @@ export function GuestList({
           )}
 
           {/* Assigned Guests */}
-          {assignedGuestList.length > 0 && (
+          {filteredAssigned.length > 0 && (
             <div className="space-y-2">
               <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                Рассажены ({assignedGuestList.length})
+                Рассажены ({filteredAssigned.length})
               </h3>
               <div className="space-y-1">
-                {assignedGuestList.map((guest) => (
+                {filteredAssigned.map((guest) => (
                   <DraggableGuestItem
                     key={guest.id}
                     guest={guest}
+                    group={guest.groupId ? groupById.get(guest.groupId) : undefined}
+                    primary={guest.companionOf ? guestById.get(guest.companionOf) : undefined}
                     onRemove={() => onRemoveGuest(guest.id)}
                     onDragStart={onDragStart}
                   />
@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import type { Guest } from '@/types';
+import { useSeatingStore } from '@/hooks/useSeatingStore';
+import { CATEGORY_COLORS, PRESET_TAGS, collectTags, normalizeTag } from '@/lib/guestTags';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Tag, X, Check, Ban } from 'lucide-react';
+
+interface GuestTagsPopoverProps {
+  guest: Guest;
+}
+
+export function GuestTagsPopover({ guest }: GuestTagsPopoverProps) {
+  const { guests, setGuestTags } = useSeatingStore();
+  const [newTag, setNewTag] = useState('');
+
+  const tags = guest.tags || [];
+  const suggestions = [...new Set([...PRESET_TAGS, ...collectTags(guests)])].filter((t) => !tags.includes(t));
+
+  const addTag = (tag: string) => {
+    const normalized = normalizeTag(tag);
+    if (!normalized || tags.includes(normalized)) return;
+    setGuestTags(guest.id, [...tags, normalized], guest.categoryColor);
+    setNewTag('');
+  };
+
+  const removeTag = (tag: string) => {
+    setGuestTags(guest.id, tags.filter((t) => t !== tag), guest.categoryColor);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 transition-opacity"
+          title="Теги и цвет"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <Tag className="w-3 h-3" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-72 space-y-3">
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Теги</p>
+          {tags.length === 0 ? (
+            <p className="text-xs text-muted-foreground">Тегов нет</p>
+          ) : (
+            <div className="flex flex-wrap gap-1">
+              {tags.map((tag) => (
+                <Badge key={tag} variant="secondary" className="gap-1">
+                  {tag}
+                  <button type="button" onClick={() => removeTag(tag)}>
+                    <X className="w-3 h-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+          <Input
+            value={newTag}
+            onChange={(e) => setNewTag(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addTag(newTag);
+              }
+            }}
+            placeholder="Новый тег и Enter"
+            className="h-8"
+          />
+          {suggestions.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {suggestions.map((tag) => (
+                <Badge
+                  key={tag}
+                  variant="outline"
+                  className="cursor-pointer hover:bg-muted"
+                  onClick={() => addTag(tag)}
+                >
+                  + {tag}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Цвет категории</p>
+          <div className="flex flex-wrap gap-1.5">
+            <button
+              type="button"
+              className="w-6 h-6 rounded-full border flex items-center justify-center"
+              onClick={() => setGuestTags(guest.id, tags, undefined)}
+              title="Без цвета"
+            >
+              <Ban className="w-3.5 h-3.5 text-muted-foreground" />
+            </button>
+            {CATEGORY_COLORS.map((color) => (
+              <button
+                key={color}
+                type="button"
+                className="w-6 h-6 rounded-full flex items-center justify-center"
+                style={{ backgroundColor: color }}
+                onClick={() => setGuestTags(guest.id, tags, color)}
+              >
+                {color === guest.categoryColor && <Check className="w-3.5 h-3.5 text-white" />}
+              </button>
+            ))}
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,82 @@
+import { useSeatingStore } from '@/hooks/useSeatingStore';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { History, Undo2, Redo2 } from 'lucide-react';
+
+const VISIBLE_ENTRIES = 20;
+
+export function HistoryPanel() {
+  const { past, future, undo, redo } = useSeatingStore();
+
+  // Newest first: undone steps (redo stack) on top, then applied steps.
+  // Clicking an applied step reverts it and everything after it
+  const recentPast = past.slice(-VISIBLE_ENTRIES).reverse();
+
+  const undoSteps = (steps: number) => {
+    for (let i = 0; i < steps; i++) undo();
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        onClick={undo}
+        disabled={past.length === 0}
+        title="Отменить (Ctrl+Z)"
+      >
+        <Undo2 className="w-4 h-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        onClick={redo}
+        disabled={future.length === 0}
+        title="Повторить (Ctrl+Shift+Z)"
+      >
+        <Redo2 className="w-4 h-4" />
+      </Button>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-8 w-8" title="История изменений">
+            <History className="w-4 h-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-72 p-0">
+          <div className="px-3 py-2 border-b">
+            <p className="text-sm font-medium">История изменений</p>
+            <p className="text-xs text-muted-foreground">Нажмите на шаг, чтобы отменить его и все последующие</p>
+          </div>
+          <div className="max-h-72 overflow-auto p-1">
+            {recentPast.length === 0 && future.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">Изменений пока нет</p>
+            )}
+            {future.map((entry, index) => (
+              <div
+                key={`future-${entry.timestamp}-${index}`}
+                className="flex items-center justify-between px-2 py-1.5 text-sm text-muted-foreground line-through"
+              >
+                <span className="truncate">{entry.label}</span>
+              </div>
+            ))}
+            {recentPast.map((entry, index) => (
+              <button
+                key={`past-${entry.timestamp}-${index}`}
+                className="w-full flex items-center justify-between gap-2 px-2 py-1.5 text-sm rounded hover:bg-muted text-left"
+                onClick={() => undoSteps(index + 1)}
+              >
+                <span className="truncate">{entry.label}</span>
+                <span className="text-xs text-muted-foreground flex-shrink-0">
+                  {new Date(entry.timestamp).toLocaleTimeString('ru-RU')}
+                </span>
+              </button>
+            ))}
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
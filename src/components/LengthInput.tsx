@@ -0,0 +1,43 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { useSeatingStore } from '@/hooks/useSeatingStore';
+import { getUnitSymbol, parseLength, toLengthUnit } from '@/lib/units';
+
+interface LengthInputProps {
+  value: number | null; // Canvas units; null leaves the field empty
+  onChange: (value: number) => void;
+  min?: number;
+  placeholder?: string;
+  id?: string;
+}
+
+// A length typed in the plan's units. While the field is focused the typed text is kept
+// as is, so "1," on the way to "1,5" does not jump back to "1"
+export function LengthInput({ value, onChange, min, placeholder, id }: LengthInputProps) {
+  const unit = useSeatingStore((state) => state.settings.lengthUnit);
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setDraft(e.target.value);
+    const length = parseLength(e.target.value, unit);
+    if (length === null || (min !== undefined && length < min)) return;
+    onChange(length);
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        id={id}
+        inputMode="decimal"
+        className="pr-9"
+        value={draft ?? (value === null ? '' : String(toLengthUnit(value, unit)).replace('.', ','))}
+        placeholder={placeholder}
+        onChange={handleChange}
+        onBlur={() => setDraft(null)}
+      />
+      <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground pointer-events-none">
+        {getUnitSymbol(unit)}
+      </span>
+    </div>
+  );
+}
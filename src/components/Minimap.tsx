@@ -0,0 +1,127 @@
+import type { Table, VenueObject } from '@/types';
+import type { Viewport } from '@/hooks/useCanvasViewport';
+import { getTableFootprint } from '@/lib/tableGeometry';
+import { getPlanContentBounds } from '@/lib/venueObjects';
+
+interface MinimapProps {
+  tables: Table[];
+  venueObjects: VenueObject[];
+  viewport: Viewport;
+  viewportSize: { width: number; height: number };
+  onNavigate: (canvasX: number, canvasY: number) => void;
+}
+
+const MINIMAP_WIDTH = 180;
+const MINIMAP_HEIGHT = 120;
+const MINIMAP_MARGIN = 100;
+
+export function Minimap({ tables, venueObjects, viewport, viewportSize, onNavigate }: MinimapProps) {
+  // Visible part of the canvas in canvas coordinates
+  const visible = {
+    minX: -viewport.x / viewport.scale,
+    minY: -viewport.y / viewport.scale,
+    maxX: (viewportSize.width - viewport.x) / viewport.scale,
+    maxY: (viewportSize.height - viewport.y) / viewport.scale,
+  };
+
+  const content = getPlanContentBounds(tables, venueObjects) ?? visible;
+  const world = {
+    minX: Math.min(content.minX, visible.minX) - MINIMAP_MARGIN,
+    minY: Math.min(content.minY, visible.minY) - MINIMAP_MARGIN,
+    maxX: Math.max(content.maxX, visible.maxX) + MINIMAP_MARGIN,
+    maxY: Math.max(content.maxY, visible.maxY) + MINIMAP_MARGIN,
+  };
+  const ratio = Math.min(
+    MINIMAP_WIDTH / (world.maxX - world.minX),
+    MINIMAP_HEIGHT / (world.maxY - world.minY)
+  );
+
+  const toMinimap = (x: number, y: number) => ({
+    x: (x - world.minX) * ratio,
+    y: (y - world.minY) * ratio,
+  });
+
+  const navigateToPointer = (e: { clientX: number; clientY: number }, target: Element) => {
+    const rect = target.getBoundingClientRect();
+    onNavigate(
+      (e.clientX - rect.left) / ratio + world.minX,
+      (e.clientY - rect.top) / ratio + world.minY
+    );
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<SVGSVGElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const target = e.currentTarget;
+    navigateToPointer(e, target);
+
+    const handleMouseMove = (moveEvent: MouseEvent) => navigateToPointer(moveEvent, target);
+    const handleMouseUp = () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  const visibleTopLeft = toMinimap(visible.minX, visible.minY);
+
+  return (
+    <div className="absolute bottom-4 right-4 bg-card/90 border rounded-lg shadow-lg p-1 z-[200]">
+      <svg
+        width={MINIMAP_WIDTH}
+        height={MINIMAP_HEIGHT}
+        className="cursor-pointer"
+        onMouseDown={handleMouseDown}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {venueObjects.map((object) => {
+          const topLeft = toMinimap(object.x, object.y);
+          const w = object.width * ratio;
+          const h = object.height * ratio;
+          return (
+            <rect
+              key={object.id}
+              x={topLeft.x}
+              y={topLeft.y}
+              width={w}
+              height={h}
+              transform={`rotate(${object.rotation} ${topLeft.x + w / 2} ${topLeft.y + h / 2})`}
+              fill="hsl(var(--muted-foreground) / 0.3)"
+            />
+          );
+        })}
+        {tables.map((table) => {
+          const { width, height } = getTableFootprint(table);
+          const topLeft = toMinimap(table.x, table.y);
+          const w = width * ratio;
+          const h = height * ratio;
+          return (
+            <rect
+              key={table.id}
+              x={topLeft.x}
+              y={topLeft.y}
+              width={w}
+              height={h}
+              rx={table.type === 'round' ? w / 2 : 1}
+              transform={`rotate(${table.rotation} ${topLeft.x + w / 2} ${topLeft.y + h / 2})`}
+              fill="hsl(var(--primary) / 0.3)"
+              stroke="hsl(var(--primary))"
+              strokeWidth={0.5}
+            />
+          );
+        })}
+        <rect
+          x={visibleTopLeft.x}
+          y={visibleTopLeft.y}
+          width={(visible.maxX - visible.minX) * ratio}
+          height={(visible.maxY - visible.minY) * ratio}
+          fill="none"
+          stroke="hsl(var(--foreground) / 0.6)"
+          strokeWidth={1}
+        />
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useState } from 'react';
+import { useSeatingStore } from '@/hooks/useSeatingStore';
+import {
+  CARD_FONTS,
+  CARD_SIZES,
+  buildCardPages,
+  cardNameFormatLabels,
+  collectGuestCards,
+  collectTableCards,
+  getSheetLayout,
+  type CardFont,
+  type CardNameFormat,
+  type CardOptions,
+  type CardSize,
+  type CardSort,
+  type SheetOrientation,
+} from '@/lib/placeCards';
+import { stackSvgPages, svgDocument, svgPagesToPdf } from '@/lib/svgImage';
+import { dateStamp, downloadBlob } from '@/lib/download';
+import { printHtml } from '@/lib/print';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChevronLeft, ChevronRight, FileDown, IdCard, Printer } from 'lucide-react';
+import { toast } from 'sonner';
+
+type CardKind = 'guests' | 'tables';
+
+const orientationLabels: Record<SheetOrientation, string> = {
+  portrait: 'Книжная',
+  landscape: 'Альбомная',
+};
+
+const sortLabels: Record<CardSort, string> = {
+  table: 'По столам',
+  alphabet: 'По алфавиту',
+};
+
+const DEFAULT_OPTIONS: Record<CardKind, CardOptions> = {
+  guests: { size: 'small', folded: true, font: 'serif', orientation: 'portrait', cutMarks: true },
+  tables: { size: 'large', folded: true, font: 'sans', orientation: 'portrait', cutMarks: true },
+};
+
+const sizeLabels = Object.fromEntries(
+  Object.entries(CARD_SIZES).map(([size, { label }]) => [size, label])
+) as Record<CardSize, string>;
+
+const fontLabels = Object.fromEntries(
+  Object.entries(CARD_FONTS).map(([font, { label }]) => [font, label])
+) as Record<CardFont, string>;
+
+const svgDataUrl = (svg: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+function OptionSelect<T extends string>({ label, value, labels, onChange }: {
+  label: string;
+  value: T;
+  labels: Record<T, string>;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label>{label}</Label>
+      <Select value={value} onValueChange={(v) => onChange(v as T)}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(labels) as T[]).map((key) => (
+            <SelectItem key={key} value={key}>{labels[key]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+export function PlaceCardsDialog() {
+  const tables = useSeatingStore((state) => state.tables);
+  const guests = useSeatingStore((state) => state.guests);
+  const [kind, setKind] = useState<CardKind>('guests');
+  const [optionsByKind, setOptionsByKind] = useState(DEFAULT_OPTIONS);
+  const [nameFormat, setNameFormat] = useState<CardNameFormat>('first-last');
+  const [showTable, setShowTable] = useState(true);
+  const [sort, setSort] = useState<CardSort>('table');
+  const [pageIndex, setPageIndex] = useState(0);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const options = optionsByKind[kind];
+  const setOption = <K extends keyof CardOptions>(key: K, value: CardOptions[K]) => {
+    setOptionsByKind({ ...optionsByKind, [kind]: { ...options, [key]: value } });
+    setPageIndex(0);
+  };
+
+  const cards = kind === 'guests'
+    ? collectGuestCards(tables, guests, { nameFormat, showTable, sort })
+    : collectTableCards(tables);
+  const layout = getSheetLayout(options);
+  const pages = buildCardPages(cards, options);
+  const currentPage = pages[Math.min(pageIndex, pages.length - 1)];
+  const title = kind === 'guests' ? 'Карточки гостей' : 'Таблички столов';
+  const filePrefix = kind === 'guests' ? 'place-cards' : 'table-tents';
+
+  const handlePrint = () => {
+    printHtml(
+      title,
+      pages.map((page) => `<div class="sheet">${svgDocument(page)}</div>`).join(''),
+      `@page { size: A4 ${options.orientation}; margin: 0; }
+       body { margin: 0; }
+       .sheet { page-break-after: always; }
+       .sheet svg { display: block; }`
+    );
+  };
+
+  const handleSvg = () => {
+    const svg = svgDocument(stackSvgPages(pages));
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `${filePrefix}-${dateStamp()}.svg`);
+  };
+
+  const handlePdf = async () => {
+    setIsExporting(true);
+    try {
+      downloadBlob(await svgPagesToPdf(pages, title), `${filePrefix}-${dateStamp()}.pdf`);
+    } catch (error) {
+      toast.error('Не удалось создать PDF', { description: error instanceof Error ? error.message : undefined });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2">
+          <IdCard className="w-4 h-4" />
+          Карточки
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Карточки для печати</DialogTitle>
+          <DialogDescription>
+            Именные карточки рассаженных гостей и таблички с названиями столов на листах A4
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={kind} onValueChange={(v) => { setKind(v as CardKind); setPageIndex(0); }}>
+          <TabsList>
+            <TabsTrigger value="guests">Карточки гостей</TabsTrigger>
+            <TabsTrigger value="tables">Таблички столов</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_280px] gap-6">
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <OptionSelect label="Размер" value={options.size} labels={sizeLabels} onChange={(v) => setOption('size', v)} />
+              <OptionSelect label="Шрифт" value={options.font} labels={fontLabels} onChange={(v) => setOption('font', v)} />
+              <OptionSelect label="Лист A4" value={options.orientation} labels={orientationLabels} onChange={(v) => setOption('orientation', v)} />
+              {kind === 'guests' && (
+                <OptionSelect label="Имя на карточке" value={nameFormat} labels={cardNameFormatLabels} onChange={setNameFormat} />
+              )}
+              {kind === 'guests' && (
+                <OptionSelect label="Порядок" value={sort} labels={sortLabels} onChange={setSort} />
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox checked={options.folded} onCheckedChange={(checked) => setOption('folded', checked === true)} />
+                Складная (домиком)
+              </label>
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox checked={options.cutMarks} onCheckedChange={(checked) => setOption('cutMarks', checked === true)} />
+                Линии реза
+              </label>
+              {kind === 'guests' && (
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox checked={showTable} onCheckedChange={(checked) => setShowTable(checked === true)} />
+                  Название стола
+                </label>
+              )}
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              {cards.length === 0
+                ? kind === 'guests' ? 'Нет рассаженных гостей' : 'Нет столов'
+                : layout.perSheet === 0
+                  ? 'Карточка не помещается на лист — выберите другую ориентацию или размер'
+                  : `Карточек: ${cards.length}, на листе: ${layout.perSheet} (${layout.columns} × ${layout.rows}), листов: ${pages.length}`}
+            </p>
+          </div>
+
+          {/* Preview of one sheet */}
+          <div className="space-y-2">
+            <div className="border rounded-lg bg-muted/40 p-2 flex items-center justify-center min-h-48">
+              {currentPage ? (
+                <img src={svgDataUrl(svgDocument(currentPage))} alt="Предпросмотр листа" className="max-h-96 w-auto bg-white shadow" />
+              ) : (
+                <span className="text-sm text-muted-foreground">Нет листов</span>
+              )}
+            </div>
+            {pages.length > 1 && (
+              <div className="flex items-center justify-center gap-2 text-sm">
+                <Button variant="ghost" size="icon" className="h-7 w-7" disabled={pageIndex === 0} onClick={() => setPageIndex(pageIndex - 1)}>
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                Лист {Math.min(pageIndex, pages.length - 1) + 1} из {pages.length}
+                <Button variant="ghost" size="icon" className="h-7 w-7" disabled={pageIndex >= pages.length - 1} onClick={() => setPageIndex(pageIndex + 1)}>
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" className="gap-2" onClick={handleSvg} disabled={pages.length === 0}>
+            <FileDown className="w-4 h-4" />
+            SVG
+          </Button>
+          <Button variant="outline" size="sm" className="gap-2" onClick={handlePdf} disabled={pages.length === 0 || isExporting}>
+            <FileDown className="w-4 h-4" />
+            {isExporting ? 'Создание PDF…' : 'PDF'}
+          </Button>
+          <Button size="sm" className="gap-2" onClick={handlePrint} disabled={pages.length === 0}>
+            <Printer className="w-4 h-4" />
+            Печать
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,42 @@
+import type { Guest, RsvpStatus } from '@/types';
+import { useSeatingStore } from '@/hooks/useSeatingStore';
+import { RSVP_STATUSES, getRsvp, rsvpBadgeClasses, rsvpLabels } from '@/lib/rsvp';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+interface RsvpBadgeProps {
+  guest: Guest;
+}
+
+// Status badge that opens a menu for changing the RSVP status
+export function RsvpBadge({ guest }: RsvpBadgeProps) {
+  const setGuestRsvp = useSeatingStore((state) => state.setGuestRsvp);
+  const status = getRsvp(guest);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          className={`text-[10px] leading-none px-1.5 py-1 rounded-full border flex-shrink-0 ${rsvpBadgeClasses[status]}`}
+          title="Статус RSVP"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {rsvpLabels[status]}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuRadioGroup value={status} onValueChange={(v) => setGuestRsvp(guest.id, v as RsvpStatus)}>
+          {RSVP_STATUSES.map((s) => (
+            <DropdownMenuRadioItem key={s} value={s}>{rsvpLabels[s]}</DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
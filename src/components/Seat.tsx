@@ -1,6 +1,10 @@
 import { useState, forwardRef } from 'react';
 import type { Guest } from '@/types';
-import { User, X } from 'lucide-react';
+import { User, X, AlertTriangle, Pencil } from 'lucide-react';
+import { useSeatingStore } from '@/hooks/useSeatingStore';
+import { dietaryIcons, dietaryLabels, getMeal, mealIcons, mealLabels } from '@/lib/dietary';
+import { getInitials, getInitialsName } from '@/lib/guestNames';
+import { EditGuestDialog } from '@/components/EditGuestDialog';
 
 interface SeatProps {
   seatId: string;
@@ -11,56 +15,61 @@ interface SeatProps {
   index?: number;
   onUnassign?: (tableId: string, seatId: string) => void;
   onDrop?: (guestId: string, tableId: string, seatId: string) => void;
+  onDropGroup?: (groupId: string, tableId: string, seatId: string) => void;
   isDragOver?: boolean;
   forceTooltip?: boolean;
   tooltipSide?: 'top' | 'bottom' | 'left' | 'right';
   tableCenter?: { x: number; y: number };
+  rotation?: number; // Table rotation in degrees; seat content is counter-rotated to stay upright
 }
 
-// Format: ИФ (First Name initial + Last Name initial)
-const getInitialsIF = (guest: Guest): string => {
-  const firstInitial = guest.firstName.charAt(0).toUpperCase();
-  const lastInitial = guest.lastName.charAt(0).toUpperCase();
-  return `${firstInitial}${lastInitial}`;
+type TooltipSide = 'top' | 'bottom' | 'left' | 'right';
+
+const sideVectors: Record<TooltipSide, { x: number; y: number }> = {
+  top: { x: 0, y: -1 },
+  bottom: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
 };
 
-// Format: И.О.Фамилия (First.Mid.Last)
-const getTooltipName = (guest: Guest): string => {
-  const firstInitial = guest.firstName.charAt(0).toUpperCase();
-  const lastName = guest.lastName;
-  
-  if (guest.middleName && guest.middleName.trim()) {
-    const middleInitial = guest.middleName.charAt(0).toUpperCase();
-    return `${firstInitial}.${middleInitial}.${lastName}`;
+// Pick the screen side that best matches a direction given in table coordinates
+const getScreenSide = (dx: number, dy: number, rotation: number): TooltipSide => {
+  const rad = (rotation * Math.PI) / 180;
+  const x = dx * Math.cos(rad) - dy * Math.sin(rad);
+  const y = dx * Math.sin(rad) + dy * Math.cos(rad);
+
+  if (Math.abs(x) > Math.abs(y)) {
+    return x > 0 ? 'right' : 'left';
   }
-  
-  return `${firstInitial}.${lastName}`;
+  return y > 0 ? 'bottom' : 'top';
 };
 
+const stopPropagation = (e: React.SyntheticEvent) => e.stopPropagation();
+
 export const Seat = forwardRef<HTMLDivElement, SeatProps>(
-  ({ seatId, tableId, guest, position, size = 40, index, onUnassign, onDrop, isDragOver, forceTooltip = false, tooltipSide = 'top', tableCenter }, forwardedRef) => {
+  ({ seatId, tableId, guest, position, size = 40, index, onUnassign, onDrop, onDropGroup, isDragOver, forceTooltip = false, tooltipSide = 'top', tableCenter, rotation = 0 }, forwardedRef) => {
     const [isHovered, setIsHovered] = useState(false);
+    const [isEditing, setIsEditing] = useState(false);
+    const group = useSeatingStore((state) =>
+      guest?.groupId ? state.groups.find((g) => g.id === guest.groupId) : undefined
+    );
 
-    // Calculate tooltip side - OPPOSITE from table center
-    const getTooltipSideFromCenter = (): 'top' | 'bottom' | 'left' | 'right' => {
-      if (!tableCenter) return tooltipSide;
+    // Calculate tooltip side - OPPOSITE from table center, in screen space after table rotation
+    const getTooltipSideFromCenter = (): TooltipSide => {
+      if (!tableCenter) {
+        const vector = sideVectors[tooltipSide];
+        return getScreenSide(vector.x, vector.y, rotation);
+      }
       
       const seatCenterX = position.x + size / 2;
       const seatCenterY = position.y + size / 2;
-      const dx = seatCenterX - tableCenter.x;
-      const dy = seatCenterY - tableCenter.y;
       
       // Tooltip should appear on the side AWAY from the center (opposite direction)
-      if (Math.abs(dx) > Math.abs(dy)) {
-        // Seat is more horizontally offset from center
-        return dx > 0 ? 'right' : 'left'; // If seat is right of center, tooltip on right (away from center)
-      } else {
-        // Seat is more vertically offset from center
-        return dy > 0 ? 'bottom' : 'top'; // If seat is below center, tooltip on bottom (away from center)
-      }
+      return getScreenSide(seatCenterX - tableCenter.x, seatCenterY - tableCenter.y, rotation);
     };
 
-    const finalTooltipSide = tableCenter ? getTooltipSideFromCenter() : tooltipSide;
+    const finalTooltipSide = getTooltipSideFromCenter();
+    const uprightStyle = rotation ? { transform: `rotate(${-rotation}deg)` } : undefined;
 
     const handleDragOver = (e: React.DragEvent) => {
       if (!guest) {
@@ -77,6 +86,8 @@ export const Seat = forwardRef<HTMLDivElement, SeatProps>(
         const data = JSON.parse(e.dataTransfer.getData('application/json'));
         if (data.type === 'guest' && onDrop) {
           onDrop(data.guestId, tableId, seatId);
+        } else if (data.type === 'group' && onDropGroup) {
+          onDropGroup(data.groupId, tableId, seatId);
         }
       } catch {
         // Ignore invalid drop data
@@ -98,6 +109,13 @@ export const Seat = forwardRef<HTMLDivElement, SeatProps>(
       height: size,
     };
 
+    // Category colour fills the seat, group colour is a ring around it
+    const occupiedStyle = {
+      ...style,
+      ...(guest?.categoryColor ? { backgroundColor: guest.categoryColor } : {}),
+      ...(group ? { boxShadow: `0 0 0 3px ${group.color}` } : {}),
+    };
+
     // Empty seat
     if (!guest) {
       return (
@@ -115,11 +133,15 @@ export const Seat = forwardRef<HTMLDivElement, SeatProps>(
           `}
           title={`Место ${index !== undefined ? index + 1 : ''} (перетащите гостя сюда)`}
         >
-          <User className="w-4 h-4 text-muted-foreground/50 pointer-events-none" />
+          <User className="w-4 h-4 text-muted-foreground/50 pointer-events-none" style={uprightStyle} />
         </div>
       );
     }
 
+    const isDeclined = guest.rsvp === 'declined';
+    const meal = getMeal(guest);
+    const MealIcon = mealIcons[meal];
+
     // Occupied seat with custom tooltip
     const getTooltipStyle = () => {
       const tooltipOffset = 32;
@@ -138,7 +160,7 @@ export const Seat = forwardRef<HTMLDivElement, SeatProps>(
     return (
       <div
         ref={forwardedRef}
-        style={style}
+        style={occupiedStyle}
         draggable
         onDragStart={(e) => {
           e.dataTransfer.effectAllowed = 'move';
@@ -153,24 +175,94 @@ export const Seat = forwardRef<HTMLDivElement, SeatProps>(
         onMouseEnter={() => setIsHovered(true)}
         onMouseLeave={() => setIsHovered(false)}
         onClick={handleClick}
+        onContextMenu={(e) => {
+          e.preventDefault();
+          setIsEditing(true);
+        }}
       >
-        <div className="relative w-full h-full flex items-center justify-center">
-          <span className="truncate px-1 text-center max-w-full pointer-events-none text-sm font-semibold">
-            {getInitialsIF(guest)}
-          </span>
+        <div className="absolute inset-0" style={uprightStyle}>
+          <div className="relative w-full h-full flex items-center justify-center">
+            <span className="truncate px-1 text-center max-w-full pointer-events-none text-sm font-semibold">
+              {getInitials(guest)}
+            </span>
+            {isDeclined && (
+              <div className="absolute -bottom-1 -right-1 w-4 h-4 bg-amber-400 rounded-full flex items-center justify-center pointer-events-none">
+                <AlertTriangle className="w-2.5 h-2.5 text-black" />
+              </div>
+            )}
+            {(isHovered || forceTooltip) && (
+              <div className="absolute -top-1 -right-1 w-4 h-4 bg-destructive rounded-full flex items-center justify-center pointer-events-none">
+                <X className="w-2.5 h-2.5 text-destructive-foreground" />
+              </div>
+            )}
+            {isHovered && (
+              <button
+                type="button"
+                className="absolute -top-1 -left-1 w-4 h-4 bg-background text-foreground border rounded-full flex items-center justify-center"
+                title="Редактировать гостя"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setIsEditing(true);
+                }}
+              >
+                <Pencil className="w-2.5 h-2.5" />
+              </button>
+            )}
+          </div>
+          {/* Custom tooltip positioned relative to seat */}
           {(isHovered || forceTooltip) && (
-            <div className="absolute -top-1 -right-1 w-4 h-4 bg-destructive rounded-full flex items-center justify-center pointer-events-none">
-              <X className="w-2.5 h-2.5 text-destructive-foreground" />
+            <div 
+              className="absolute bg-popover text-popover-foreground border shadow-lg px-3 py-1.5 rounded-md whitespace-nowrap z-[1000] pointer-events-none text-sm"
+              style={getTooltipStyle()}
+            >
+              <p className="font-medium">{getInitialsName(guest)}</p>
+              {isDeclined && (
+                <p className="text-xs text-destructive font-medium">Отказался от приглашения</p>
+              )}
+              {group && (
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: group.color }} />
+                  {group.name}
+                </p>
+              )}
+              {guest.tags && guest.tags.length > 0 && (
+                <p className="text-xs text-muted-foreground">{guest.tags.join(', ')}</p>
+              )}
+              {(meal !== 'standard' || !!guest.dietary?.length) && (
+                <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                  {meal !== 'standard' && (
+                    <span className="flex items-center gap-0.5">
+                      <MealIcon className="w-3 h-3" />
+                      {mealLabels[meal]}
+                    </span>
+                  )}
+                  {guest.dietary?.map((restriction) => {
+                    const RestrictionIcon = dietaryIcons[restriction];
+                    return <RestrictionIcon key={restriction} className="w-3 h-3" aria-label={dietaryLabels[restriction]} />;
+                  })}
+                </p>
+              )}
+              {guest.dietaryNotes && (
+                <p className="text-xs text-muted-foreground">{guest.dietaryNotes}</p>
+              )}
+              {guest.notes && (
+                <p className="text-xs text-muted-foreground italic">{guest.notes}</p>
+              )}
             </div>
           )}
         </div>
-        {/* Custom tooltip positioned relative to seat */}
-        {(isHovered || forceTooltip) && (
-          <div 
-            className="absolute bg-popover text-popover-foreground border shadow-lg px-3 py-1.5 rounded-md whitespace-nowrap z-[1000] pointer-events-none text-sm"
-            style={getTooltipStyle()}
+        {/* The dialog is portalled, but React events from it, overlay included, still bubble
+            through the seat: without this a click that closes it would unassign the guest
+            and a press would start dragging the table */}
+        {isEditing && (
+          <div
+            className="contents"
+            onClick={stopPropagation}
+            onMouseDown={stopPropagation}
+            onContextMenu={stopPropagation}
+            onDragStart={stopPropagation}
           >
-            <p className="font-medium">{getTooltipName(guest)}</p>
+            <EditGuestDialog guest={guest} onClose={() => setIsEditing(false)} />
           </div>
         )}
       </div>
@@ -3,12 +3,41 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
-import { RotateCw, Move, Users, Rows, Armchair } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LengthInput } from '@/components/LengthInput';
+import {
+  RotateCw,
+  Move,
+  Users,
+  Rows,
+  Armchair,
+  AlignStartVertical,
+  AlignCenterVertical,
+  AlignEndVertical,
+  AlignStartHorizontal,
+  AlignCenterHorizontal,
+  AlignEndHorizontal,
+  AlignHorizontalDistributeCenter,
+  AlignVerticalDistributeCenter,
+  type LucideIcon,
+} from 'lucide-react';
 import { useSeatingStore } from '@/hooks/useSeatingStore';
+import {
+  MIN_DISTRIBUTE_COUNT,
+  alignModeLabels,
+  alignTables,
+  distributeAxisLabels,
+  distributeTables,
+  type AlignMode,
+  type DistributeAxis,
+} from '@/lib/tableArrangement';
+import { getTableFootprint } from '@/lib/tableGeometry';
+import { describeTableSize, formatSize } from '@/lib/units';
+import { TABLE_PRESETS, describeTablePreset } from '@/lib/tablePresets';
 import { useState, useEffect } from 'react';
 
 interface TableConfigPanelProps {
-  table: Table | null;
+  tables: Table[]; // The canvas selection
 }
 
 const tableTypeLabels: Record<string, string> = {
@@ -19,35 +48,60 @@ const tableTypeLabels: Record<string, string> = {
   amphitheater: 'Амфитеатр',
 };
 
-export function TableConfigPanel({ table }: TableConfigPanelProps) {
-  const { updateTableConfig, updateTableRotation, updateTablePosition } = useSeatingStore();
-  const [localName, setLocalName] = useState('');
-  const [localSeats, setLocalSeats] = useState(8);
-  const [localRows, setLocalRows] = useState(5);
-  const [localSeatsPerRow, setLocalSeatsPerRow] = useState(8);
+const alignModeIcons: Record<AlignMode, LucideIcon> = {
+  left: AlignStartVertical,
+  center: AlignCenterVertical,
+  right: AlignEndVertical,
+  top: AlignStartHorizontal,
+  middle: AlignCenterHorizontal,
+  bottom: AlignEndHorizontal,
+};
 
-  useEffect(() => {
-    if (table) {
-      setLocalName(table.name);
-      setLocalSeats(table.seats.length);
-      setLocalRows(table.rows || 5);
-      setLocalSeatsPerRow(table.seatsPerRow || 8);
-    }
-  }, [table?.id]);
-
-  if (!table) {
+const distributeAxisIcons: Record<DistributeAxis, LucideIcon> = {
+  horizontal: AlignHorizontalDistributeCenter,
+  vertical: AlignVerticalDistributeCenter,
+};
+
+const isTheaterStyleTable = (table: Table) => table.type === 'theater' || table.type === 'amphitheater';
+
+// The value when every table has the same one, otherwise null
+const sharedValue = (values: number[]): number | null =>
+  values.length > 0 && values.every((v) => v === values[0]) ? values[0] : null;
+
+export function TableConfigPanel({ tables }: TableConfigPanelProps) {
+  if (tables.length === 0) {
     return (
       <div className="h-full flex items-center justify-center text-muted-foreground p-4 text-center">
         <div>
           <Move className="w-12 h-12 mx-auto mb-3 opacity-50" />
           <p className="text-sm">Выберите стол для настройки</p>
-          <p className="text-xs mt-1">Нажмите на стол на холсте</p>
+          <p className="text-xs mt-1">Нажмите на стол на холсте, с Shift или рамкой — несколько столов</p>
         </div>
       </div>
     );
   }
 
-  const isTheaterStyle = table.type === 'theater' || table.type === 'amphitheater';
+  return tables.length === 1
+    ? <SingleTableConfig table={tables[0]} />
+    : <MultiTableConfig tables={tables} />;
+}
+
+function SingleTableConfig({ table }: { table: Table }) {
+  const { updateTableConfig, updateTableRotation, updateTablePosition } = useSeatingStore();
+  const lengthUnit = useSeatingStore((state) => state.settings.lengthUnit);
+  const [localName, setLocalName] = useState('');
+  const [localSeats, setLocalSeats] = useState(8);
+  const [localRows, setLocalRows] = useState(5);
+  const [localSeatsPerRow, setLocalSeatsPerRow] = useState(8);
+
+  useEffect(() => {
+    setLocalName(table.name);
+    setLocalSeats(table.seats.length);
+    setLocalRows(table.rows || 5);
+    setLocalSeatsPerRow(table.seatsPerRow || 8);
+  }, [table.id]);
+
+  const isTheaterStyle = isTheaterStyleTable(table);
 
   const handleNameChange = (value: string) => {
     setLocalName(value);
@@ -69,12 +123,24 @@ export function TableConfigPanel({ table }: TableConfigPanelProps) {
     updateTableConfig(table.id, { seatsPerRow: value });
   };
 
+  const presets = TABLE_PRESETS.filter((preset) => preset.type === table.type);
+  const currentPreset = presets.find((preset) =>
+    preset.width === table.width && preset.height === table.height && preset.seats === table.seats.length);
+
+  const handlePresetChange = (presetId: string) => {
+    const preset = presets.find((p) => p.id === presetId);
+    if (!preset) return;
+    setLocalSeats(preset.seats);
+    updateTableConfig(table.id, { width: preset.width, height: preset.height, seats: preset.seats });
+  };
+
   const handleRotate = () => {
     const newRotation = (table.rotation + 45) % 360;
     updateTableRotation(table.id, newRotation);
   };
 
   const assignedCount = table.seats.filter((s) => s.guestId).length;
+  const footprint = getTableFootprint(table);
 
   return (
     <div className="h-full flex flex-col p-4 space-y-4 overflow-auto">
@@ -117,6 +183,13 @@ export function TableConfigPanel({ table }: TableConfigPanelProps) {
           </Button>
           <span className="text-sm text-muted-foreground">{table.rotation}°</span>
         </div>
+        <Slider
+          value={[table.rotation]}
+          onValueChange={([v]) => updateTableRotation(table.id, v)}
+          min={0}
+          max={359}
+          step={1}
+        />
       </div>
 
       {/* Position */}
@@ -125,19 +198,11 @@ export function TableConfigPanel({ table }: TableConfigPanelProps) {
         <div className="grid grid-cols-2 gap-2">
           <div>
             <span className="text-xs text-muted-foreground">X</span>
-            <Input
-              type="number"
-              value={Math.round(table.x)}
-              onChange={(e) => updateTablePosition(table.id, Number(e.target.value), table.y)}
-            />
+            <LengthInput value={table.x} onChange={(x) => updateTablePosition(table.id, x, table.y)} />
           </div>
           <div>
             <span className="text-xs text-muted-foreground">Y</span>
-            <Input
-              type="number"
-              value={Math.round(table.y)}
-              onChange={(e) => updateTablePosition(table.id, table.x, Number(e.target.value))}
-            />
+            <LengthInput value={table.y} onChange={(y) => updateTablePosition(table.id, table.x, y)} />
           </div>
         </div>
       </div>
@@ -207,22 +272,166 @@ export function TableConfigPanel({ table }: TableConfigPanelProps) {
       {/* Size */}
       <div className="space-y-2">
         <Label>Размеры</Label>
+        {presets.length > 0 && (
+          <Select value={currentPreset?.id ?? ''} onValueChange={handlePresetChange}>
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Типовой размер" />
+            </SelectTrigger>
+            <SelectContent>
+              {presets.map((preset) => (
+                <SelectItem key={preset.id} value={preset.id}>{describeTablePreset(preset, lengthUnit)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
         <div className="grid grid-cols-2 gap-2">
           <div>
             <span className="text-xs text-muted-foreground">Ширина</span>
-            <Input
-              type="number"
-              value={Math.round(table.width)}
-              onChange={(e) => updateTableConfig(table.id, { width: Number(e.target.value) })}
-            />
+            <LengthInput value={table.width} onChange={(width) => updateTableConfig(table.id, { width })} />
           </div>
           <div>
             <span className="text-xs text-muted-foreground">Высота</span>
-            <Input
-              type="number"
-              value={Math.round(table.height)}
-              onChange={(e) => updateTableConfig(table.id, { height: Number(e.target.value) })}
+            <LengthInput value={table.height} onChange={(height) => updateTableConfig(table.id, { height })} />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Стол {describeTableSize(table, lengthUnit)}, с местами {formatSize(footprint.width, footprint.height, lengthUnit)}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+// Bulk editing for several selected tables: fields show a value only when all tables share it,
+// and a change applies to every table in one undo step
+function MultiTableConfig({ tables }: { tables: Table[] }) {
+  const { updateTablesConfig, moveTables } = useSeatingStore();
+
+  const tableIds = tables.map((t) => t.id);
+  // Theater-style tables are sized by rows, so a seat count only applies to the others
+  const seatTables = tables.filter((t) => !isTheaterStyleTable(t));
+  const rotation = sharedValue(tables.map((t) => t.rotation));
+  const seats = sharedValue(seatTables.map((t) => t.seats.length));
+  const width = sharedValue(tables.map((t) => t.width));
+  const height = sharedValue(tables.map((t) => t.height));
+
+  const capacity = tables.reduce((sum, t) => sum + t.seats.length, 0);
+  const assignedCount = tables.reduce((sum, t) => sum + t.seats.filter((s) => s.guestId).length, 0);
+
+  return (
+    <div className="h-full flex flex-col p-4 space-y-4 overflow-auto">
+      <div className="space-y-1">
+        <p className="text-xs text-muted-foreground uppercase tracking-wider">Несколько столов</p>
+        <h3 className="font-semibold">Выбрано столов: {tables.length}</h3>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-2 gap-2">
+        <div className="bg-muted rounded-lg p-3 text-center">
+          <Users className="w-4 h-4 mx-auto mb-1 text-muted-foreground" />
+          <p className="text-lg font-semibold">{assignedCount}/{capacity}</p>
+          <p className="text-xs text-muted-foreground">Занято</p>
+        </div>
+        <div className="bg-muted rounded-lg p-3 text-center">
+          <Armchair className="w-4 h-4 mx-auto mb-1 text-muted-foreground" />
+          <p className="text-lg font-semibold">{capacity - assignedCount}</p>
+          <p className="text-xs text-muted-foreground">Свободно</p>
+        </div>
+      </div>
+
+      {/* Align and distribute */}
+      <div className="space-y-2">
+        <Label>Выравнивание</Label>
+        <div className="grid grid-cols-6 gap-1">
+          {(Object.keys(alignModeLabels) as AlignMode[]).map((mode) => {
+            const Icon = alignModeIcons[mode];
+            return (
+              <Button
+                key={mode}
+                variant="outline"
+                size="icon"
+                className="h-8 w-full"
+                title={alignModeLabels[mode]}
+                onClick={() => moveTables(alignTables(tables, mode), 'Выравнивание столов')}
+              >
+                <Icon className="w-4 h-4" />
+              </Button>
+            );
+          })}
+        </div>
+        <div className="grid grid-cols-2 gap-1">
+          {(Object.keys(distributeAxisLabels) as DistributeAxis[]).map((axis) => {
+            const Icon = distributeAxisIcons[axis];
+            return (
+              <Button
+                key={axis}
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                title={distributeAxisLabels[axis]}
+                disabled={tables.length < MIN_DISTRIBUTE_COUNT}
+                onClick={() => moveTables(distributeTables(tables, axis), 'Распределение столов')}
+              >
+                <Icon className="w-4 h-4" />
+                {axis === 'horizontal' ? 'По горизонтали' : 'По вертикали'}
+              </Button>
+            );
+          })}
+        </div>
+        {tables.length < MIN_DISTRIBUTE_COUNT && (
+          <p className="text-xs text-muted-foreground">Для распределения выберите не меньше {MIN_DISTRIBUTE_COUNT} столов</p>
+        )}
+      </div>
+
+      {/* Rotation */}
+      <div className="space-y-2">
+        <Label>Поворот</Label>
+        <div className="flex items-center gap-3">
+          <Slider
+            value={[rotation ?? 0]}
+            onValueChange={([v]) => updateTablesConfig(tableIds, { rotation: v })}
+            min={0}
+            max={359}
+            step={1}
+          />
+          <span className="text-sm text-muted-foreground w-12">{rotation !== null ? `${rotation}°` : 'разный'}</span>
+        </div>
+      </div>
+
+      {/* Seats */}
+      {seatTables.length > 0 && (
+        <div className="space-y-3">
+          <Label className="flex items-center gap-2">
+            <Users className="w-4 h-4" />
+            Количество мест
+          </Label>
+          <div className="flex items-center gap-3">
+            <Slider
+              value={[seats ?? 2]}
+              onValueChange={([v]) => updateTablesConfig(seatTables.map((t) => t.id), { seats: v })}
+              min={2}
+              max={24}
+              step={1}
             />
+            <span className="text-sm font-medium w-8">{seats ?? '—'}</span>
+          </div>
+          {seatTables.length < tables.length && (
+            <p className="text-xs text-muted-foreground">Кинотеатр и амфитеатр настраиваются по рядам отдельно</p>
+          )}
+        </div>
+      )}
+
+      {/* Size */}
+      <div className="space-y-2">
+        <Label>Размеры</Label>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <span className="text-xs text-muted-foreground">Ширина</span>
+            <LengthInput value={width} placeholder="разная" onChange={(value) => updateTablesConfig(tableIds, { width: value })} />
+          </div>
+          <div>
+            <span className="text-xs text-muted-foreground">Высота</span>
+            <LengthInput value={height} placeholder="разная" onChange={(value) => updateTablesConfig(tableIds, { height: value })} />
           </div>
         </div>
       </div>
@@ -10,11 +10,12 @@ interface TableRendererProps {
   scale?: number;
   onUpdatePosition?: (x: number, y: number) => void;
   onDropOnSeat?: (guestId: string, tableId: string, seatId: string) => void;
+  onDropGroup?: (groupId: string, tableId: string, seatId: string) => void;
   draggedGuest?: Guest | null;
   showAllTooltips?: boolean;
 }
 
-export function TableRenderer({ table, guests, isSelected, onSelect, onDelete, scale = 1, onUpdatePosition, onDropOnSeat, draggedGuest, showAllTooltips }: TableRendererProps) {
+export function TableRenderer({ table, guests, isSelected, onSelect, onDelete, scale = 1, onUpdatePosition, onDropOnSeat, onDropGroup, draggedGuest, showAllTooltips }: TableRendererProps) {
   switch (table.type) {
     case 'round':
       return (
@@ -27,6 +28,7 @@ export function TableRenderer({ table, guests, isSelected, onSelect, onDelete, s
           scale={scale}
           onUpdatePosition={onUpdatePosition}
           onDropOnSeat={onDropOnSeat}
+          onDropGroup={onDropGroup}
           draggedGuest={draggedGuest}
           showAllTooltips={showAllTooltips}
         />
@@ -42,6 +44,7 @@ export function TableRenderer({ table, guests, isSelected, onSelect, onDelete, s
           scale={scale}
           onUpdatePosition={onUpdatePosition}
           onDropOnSeat={onDropOnSeat}
+          onDropGroup={onDropGroup}
           draggedGuest={draggedGuest}
           showAllTooltips={showAllTooltips}
         />
@@ -57,6 +60,7 @@ export function TableRenderer({ table, guests, isSelected, onSelect, onDelete, s
           scale={scale}
           onUpdatePosition={onUpdatePosition}
           onDropOnSeat={onDropOnSeat}
+          onDropGroup={onDropGroup}
           draggedGuest={draggedGuest}
           showAllTooltips={showAllTooltips}
         />
@@ -72,6 +76,7 @@ export function TableRenderer({ table, guests, isSelected, onSelect, onDelete, s
           scale={scale}
           onUpdatePosition={onUpdatePosition}
           onDropOnSeat={onDropOnSeat}
+          onDropGroup={onDropGroup}
           draggedGuest={draggedGuest}
           showAllTooltips={showAllTooltips}
         />
@@ -87,6 +92,7 @@ export function TableRenderer({ table, guests, isSelected, onSelect, onDelete, s
           scale={scale}
           onUpdatePosition={onUpdatePosition}
           onDropOnSeat={onDropOnSeat}
+          onDropGroup={onDropGroup}
           draggedGuest={draggedGuest}
           showAllTooltips={showAllTooltips}
         />
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { useSeatingStore } from '@/hooks/useSeatingStore';
+import { buildTableReports, getReportTotals, tableReportsToRows, type TableReport } from '@/lib/tableReport';
+import { dateStamp, downloadCsv } from '@/lib/download';
+import { escapeHtml, printHtml } from '@/lib/print';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Table as UITable,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ClipboardList, FileSpreadsheet, Printer } from 'lucide-react';
+
+const TABLE_REPORT_PRINT_STYLES = `
+  .report { margin-bottom: 24px; break-inside: avoid; }
+  .report.sheet { page-break-after: always; }
+  .report h2 { font-size: 16px; margin: 0 0 6px; display: flex; justify-content: space-between; }
+  .report h2 span { font-weight: 400; }
+  .report td:first-child, .report th:first-child { width: 48px; text-align: center; }
+  .report .empty { color: #888; font-style: italic; }
+  .report .free { margin: 6px 0 0; }
+`;
+
+const formatEmptySeats = (report: TableReport) =>
+  report.emptySeats.length > 0 ? report.emptySeats.join(', ') : 'нет';
+
+export function TableReportDialog() {
+  const tables = useSeatingStore((state) => state.tables);
+  const guests = useSeatingStore((state) => state.guests);
+  const [sheetPerTable, setSheetPerTable] = useState(true);
+
+  const reports = buildTableReports(tables, guests);
+  const totals = getReportTotals(reports);
+
+  const handleCsv = () => {
+    downloadCsv(tableReportsToRows(reports), `tables-${dateStamp()}.csv`);
+  };
+
+  const handlePrint = () => {
+    const body = reports.map((report) => `
+      <section class="report${sheetPerTable ? ' sheet' : ''}">
+        <h2>${escapeHtml(report.tableName)} <span>занято ${report.occupied} из ${report.capacity}</span></h2>
+        <table>
+          <thead><tr><th>Место</th><th>Гость</th><th>Питание</th></tr></thead>
+          <tbody>${report.seats.map((seat) => `
+            <tr>
+              <td>${seat.seatNumber}</td>
+              ${seat.guestName ? `<td>${escapeHtml(seat.guestName)}</td>` : '<td class="empty">свободно</td>'}
+              <td>${escapeHtml(seat.diet)}</td>
+            </tr>
+          `).join('')}</tbody>
+        </table>
+        <p class="free">Свободные места: ${escapeHtml(formatEmptySeats(report))}</p>
+      </section>
+    `).join('');
+
+    printHtml('Списки гостей по столам', `
+      <h1>Списки гостей по столам — ${escapeHtml(new Date().toLocaleDateString('ru-RU'))}</h1>
+      <p>Занято мест: ${totals.occupied} из ${totals.capacity}</p>
+      ${body}
+    `, TABLE_REPORT_PRINT_STYLES);
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2">
+          <ClipboardList className="w-4 h-4" />
+          По столам
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Списки гостей по столам</DialogTitle>
+          <DialogDescription>
+            {reports.length > 0
+              ? `Столов: ${reports.length}, занято мест: ${totals.occupied} из ${totals.capacity}`
+              : 'Листы для персонала зала: места, гости и особенности питания'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {reports.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">Нет столов</p>
+        ) : (
+          <div className="space-y-6">
+            {reports.map((report) => (
+              <div key={report.tableId} className="space-y-2">
+                <div className="flex items-baseline justify-between">
+                  <h3 className="font-semibold">{report.tableName}</h3>
+                  <span className="text-sm text-muted-foreground">занято {report.occupied} из {report.capacity}</span>
+                </div>
+                <UITable>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16 text-center">Место</TableHead>
+                      <TableHead>Гость</TableHead>
+                      <TableHead>Питание</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.seats.map((seat) => (
+                      <TableRow key={seat.seatNumber}>
+                        <TableCell className="text-center">{seat.seatNumber}</TableCell>
+                        <TableCell className={seat.guestName ? 'font-medium' : 'italic text-muted-foreground'}>
+                          {seat.guestName ?? 'свободно'}
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground whitespace-normal">{seat.diet}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </UITable>
+                <p className="text-xs text-muted-foreground">Свободные места: {formatEmptySeats(report)}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-2">
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <Checkbox checked={sheetPerTable} onCheckedChange={(checked) => setSheetPerTable(checked === true)} />
+            Каждый стол на отдельном листе
+          </label>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" className="gap-2" onClick={handleCsv} disabled={reports.length === 0}>
+              <FileSpreadsheet className="w-4 h-4" />
+              CSV
+            </Button>
+            <Button variant="outline" size="sm" className="gap-2" onClick={handlePrint} disabled={reports.length === 0}>
+              <Printer className="w-4 h-4" />
+              Печать
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
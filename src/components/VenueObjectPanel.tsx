@@ -0,0 +1,104 @@
+import type { VenueObject } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { LengthInput } from '@/components/LengthInput';
+import { RotateCw, Trash2 } from 'lucide-react';
+import { useSeatingStore } from '@/hooks/useSeatingStore';
+import { MIN_VENUE_OBJECT_SIZE, venueObjectTypeLabels } from '@/lib/venueObjects';
+
+interface VenueObjectPanelProps {
+  object: VenueObject;
+  onDelete: () => void;
+}
+
+export function VenueObjectPanel({ object, onDelete }: VenueObjectPanelProps) {
+  const { updateVenueObject, moveVenueObject } = useSeatingStore();
+
+  return (
+    <div className="h-full flex flex-col p-4 space-y-4 overflow-auto">
+      <div className="space-y-1">
+        <p className="text-xs text-muted-foreground uppercase tracking-wider">{venueObjectTypeLabels[object.type]}</p>
+        <h3 className="font-semibold">{object.label || venueObjectTypeLabels[object.type]}</h3>
+      </div>
+
+      {/* Caption */}
+      <div className="space-y-2">
+        <Label>{object.type === 'label' ? 'Текст' : 'Подпись'}</Label>
+        <Input
+          value={object.label}
+          onChange={(e) => updateVenueObject(object.id, { label: e.target.value })}
+          placeholder="Без подписи"
+        />
+      </div>
+
+      {/* Rotation */}
+      <div className="space-y-2">
+        <Label>Поворот</Label>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => updateVenueObject(object.id, { rotation: (object.rotation + 90) % 360 })}
+            className="gap-2"
+          >
+            <RotateCw className="w-4 h-4" />
+            Повернуть на 90°
+          </Button>
+          <span className="text-sm text-muted-foreground">{object.rotation}°</span>
+        </div>
+        <Slider
+          value={[object.rotation]}
+          onValueChange={([v]) => updateVenueObject(object.id, { rotation: v })}
+          min={0}
+          max={359}
+          step={1}
+        />
+      </div>
+
+      {/* Position */}
+      <div className="space-y-2">
+        <Label>Позиция</Label>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <span className="text-xs text-muted-foreground">X</span>
+            <LengthInput value={object.x} onChange={(x) => moveVenueObject(object.id, x, object.y)} />
+          </div>
+          <div>
+            <span className="text-xs text-muted-foreground">Y</span>
+            <LengthInput value={object.y} onChange={(y) => moveVenueObject(object.id, object.x, y)} />
+          </div>
+        </div>
+      </div>
+
+      {/* Size */}
+      <div className="space-y-2">
+        <Label>Размеры</Label>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <span className="text-xs text-muted-foreground">Ширина</span>
+            <LengthInput
+              value={object.width}
+              min={MIN_VENUE_OBJECT_SIZE}
+              onChange={(width) => updateVenueObject(object.id, { width })}
+            />
+          </div>
+          <div>
+            <span className="text-xs text-muted-foreground">Высота</span>
+            <LengthInput
+              value={object.height}
+              min={MIN_VENUE_OBJECT_SIZE}
+              onChange={(height) => updateVenueObject(object.id, { height })}
+            />
+          </div>
+        </div>
+      </div>
+
+      <Button variant="destructive" size="sm" className="gap-2" onClick={onDelete}>
+        <Trash2 className="w-4 h-4" />
+        Удалить объект
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useRef } from 'react';
+import type { VenueObject } from '@/types';
+import { RotationHandle } from './tables/RotationHandle';
+import { useSeatingStore } from '@/hooks/useSeatingStore';
+import { useTableDrag } from '@/hooks/useTableDrag';
+import { MIN_VENUE_OBJECT_SIZE, VENUE_OBJECT_STYLES, getVenueObjectFontSize } from '@/lib/venueObjects';
+
+interface VenueObjectRendererProps {
+  object: VenueObject;
+  isSelected: boolean;
+  onSelect: () => void;
+  scale?: number;
+  onUpdatePosition?: (x: number, y: number) => void;
+}
+
+// Stage, bar, wall and the like. Sits under the tables and turns around its centre, caption included
+export function VenueObjectRenderer({ object, isSelected, onSelect, scale = 1, onUpdatePosition }: VenueObjectRendererProps) {
+  const objectRef = useRef<HTMLDivElement>(null);
+  const { updateVenueObject, endGesture } = useSeatingStore();
+  const { isDragging, handleMouseDown } = useTableDrag(object, scale, onUpdatePosition);
+  const style = VENUE_OBJECT_STYLES[object.type];
+
+  // The corner handle follows the pointer in the object's own, rotated axes
+  const handleResizeMouseDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    const startX = e.clientX;
+    const startY = e.clientY;
+    const start = { width: object.width, height: object.height };
+    const rad = (object.rotation * Math.PI) / 180;
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      const dx = (moveEvent.clientX - startX) / scale;
+      const dy = (moveEvent.clientY - startY) / scale;
+      updateVenueObject(object.id, {
+        width: Math.max(MIN_VENUE_OBJECT_SIZE, Math.round(start.width + dx * Math.cos(rad) + dy * Math.sin(rad))),
+        height: Math.max(MIN_VENUE_OBJECT_SIZE, Math.round(start.height - dx * Math.sin(rad) + dy * Math.cos(rad))),
+      });
+    };
+
+    const handleMouseUp = () => {
+      endGesture();
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  return (
+    <div
+      ref={objectRef}
+      className={`absolute ${isDragging ? 'cursor-grabbing' : 'cursor-grab'}`}
+      style={{
+        left: object.x,
+        top: object.y,
+        width: object.width,
+        height: object.height,
+        transform: `rotate(${object.rotation}deg)`,
+        zIndex: isSelected ? 20 : 10,
+      }}
+      onMouseDown={handleMouseDown}
+      onClick={onSelect}
+    >
+      <div
+        className={`w-full h-full flex items-center justify-center overflow-hidden select-none ${
+          isSelected ? 'ring-2 ring-primary ring-offset-2' : ''
+        } ${style.shape === 'text' && !isSelected ? 'hover:outline-dashed hover:outline-1 hover:outline-border' : ''}`}
+        style={{
+          background: style.shape === 'text' ? undefined : style.fill,
+          border: style.shape === 'text' ? undefined : `2px solid ${style.stroke}`,
+          borderRadius: style.shape === 'ellipse' ? '50%' : 4,
+          color: style.color,
+        }}
+      >
+        {object.label && (
+          <span
+            className="font-semibold whitespace-nowrap pointer-events-none"
+            style={{ fontSize: getVenueObjectFontSize(object), lineHeight: 1 }}
+          >
+            {object.label}
+          </span>
+        )}
+      </div>
+
+      {isSelected && (
+        <>
+          <RotationHandle
+            pivotRef={objectRef}
+            onRotate={(rotation) => updateVenueObject(object.id, { rotation })}
+          />
+          <button
+            type="button"
+            className="absolute -right-1.5 -bottom-1.5 w-3 h-3 rounded-sm bg-primary border border-background cursor-nwse-resize z-50"
+            onMouseDown={handleResizeMouseDown}
+            onClick={(e) => e.stopPropagation()}
+            title="Потяните, чтобы изменить размер"
+          />
+        </>
+      )}
+    </div>
+  );
+}
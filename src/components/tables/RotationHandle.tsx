@@ -0,0 +1,56 @@
+import { RotateCw } from 'lucide-react';
+import { useSeatingStore } from '@/hooks/useSeatingStore';
+
+interface RotationHandleProps {
+  // Element whose center is the pivot (the table container)
+  pivotRef: React.RefObject<HTMLDivElement | null>;
+  onRotate: (rotation: number) => void;
+}
+
+const SNAP_STEP = 15;
+
+// Angle between the pivot center and the pointer; a pointer straight below the center is 0°
+const getPointerAngle = (pivot: HTMLElement, clientX: number, clientY: number): number => {
+  const rect = pivot.getBoundingClientRect();
+  const centerX = rect.left + rect.width / 2;
+  const centerY = rect.top + rect.height / 2;
+  return (Math.atan2(clientY - centerY, clientX - centerX) * 180) / Math.PI - 90;
+};
+
+const normalizeAngle = (angle: number): number => ((Math.round(angle) % 360) + 360) % 360;
+
+// Drag handle for free-angle rotation. Lives inside the rotated layer below the table,
+// so it always points in the current table direction. Hold Shift to snap to 15°.
+export function RotationHandle({ pivotRef, onRotate }: RotationHandleProps) {
+  const handleMouseDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      if (!pivotRef.current) return;
+      const angle = getPointerAngle(pivotRef.current, moveEvent.clientX, moveEvent.clientY);
+      onRotate(normalizeAngle(moveEvent.shiftKey ? Math.round(angle / SNAP_STEP) * SNAP_STEP : angle));
+    };
+
+    const handleMouseUp = () => {
+      useSeatingStore.getState().endGesture();
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  return (
+    <button
+      type="button"
+      className="absolute left-1/2 -bottom-9 -translate-x-1/2 w-6 h-6 rounded-full bg-primary text-primary-foreground shadow-md flex items-center justify-center cursor-alias z-50"
+      onMouseDown={handleMouseDown}
+      onClick={(e) => e.stopPropagation()}
+      title="Потяните, чтобы повернуть (Shift — шаг 15°)"
+    >
+      <RotateCw className="w-3 h-3 pointer-events-none" />
+    </button>
+  );
+}
@@ -1,10 +1,13 @@
 import type { Table, Guest } from '@/types';
 import { Seat } from '../Seat';
+import { RotationHandle } from './RotationHandle';
 import { GripHorizontal, Settings, Trash2, Users } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { useState, useRef } from 'react';
 import { useSeatingStore } from '@/hooks/useSeatingStore';
+import { useTableDrag } from '@/hooks/useTableDrag';
+import { getSeatPositions, getTableFootprint } from '@/lib/tableGeometry';
 import {
   Dialog,
   DialogContent,
@@ -23,52 +26,26 @@ interface RoundTableProps {
   scale?: number;
   onUpdatePosition?: (x: number, y: number) => void;
   onDropOnSeat?: (guestId: string, tableId: string, seatId: string) => void;
+  onDropGroup?: (groupId: string, tableId: string, seatId: string) => void;
   draggedGuest?: Guest | null;
   showAllTooltips?: boolean;
 }
 
-export function RoundTable({ table, guests, isSelected, onSelect, onDelete, onDropOnSeat, draggedGuest, showAllTooltips }: RoundTableProps) {
+export function RoundTable({ table, guests, isSelected, onSelect, onDelete, scale = 1, onUpdatePosition, onDropOnSeat, onDropGroup, draggedGuest, showAllTooltips }: RoundTableProps) {
   const tableRef = useRef<HTMLDivElement>(null);
-  const { unassignGuestFromSeat, updateTableConfig } = useSeatingStore();
+  const { unassignGuestFromSeat, updateTableConfig, updateTableRotation } = useSeatingStore();
   const [configOpen, setConfigOpen] = useState(false);
   const [seatCount, setSeatCount] = useState(table.seats.length);
-  const [isDragging, setIsDragging] = useState(false);
-  const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
+  const { isDragging, handleMouseDown } = useTableDrag(table, scale, onUpdatePosition);
 
   // Table dimensions
   const tableDiameter = table.width;
-  const tableRadius = tableDiameter / 2;
   const seatSize = 36;
-  const seatRadius = tableRadius + seatSize / 2 + 8;
 
-  const containerSize = tableDiameter + seatSize * 2 + 32;
+  const { width: containerSize } = getTableFootprint(table);
   const centerOffset = containerSize / 2;
 
-  const getSeatPosition = (index: number, total: number) => {
-    const angle = (index / total) * 2 * Math.PI - Math.PI / 2;
-    return {
-      x: centerOffset + seatRadius * Math.cos(angle) - seatSize / 2,
-      y: centerOffset + seatRadius * Math.sin(angle) - seatSize / 2,
-    };
-  };
-
-  const handleMouseDown = (e: React.MouseEvent) => {
-    if ((e.target as HTMLElement).closest('button')) return;
-    setIsDragging(true);
-    setDragStart({ x: e.clientX - table.x, y: e.clientY - table.y });
-    e.preventDefault();
-  };
-
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (!isDragging) return;
-    const newX = e.clientX - dragStart.x;
-    const newY = e.clientY - dragStart.y;
-    updateTableConfig(table.id, { x: newX, y: newY });
-  };
-
-  const handleMouseUp = () => {
-    setIsDragging(false);
-  };
+  const seatPositions = getSeatPositions(table);
 
   const handleSeatCountChange = (value: number) => {
     setSeatCount(value);
@@ -90,58 +67,64 @@ export function RoundTable({ table, guests, isSelected, onSelect, onDelete, onDr
         zIndex: isSelected ? 100 : 50,
       }}
       onMouseDown={handleMouseDown}
-      onMouseMove={handleMouseMove}
-      onMouseUp={handleMouseUp}
-      onMouseLeave={handleMouseUp}
       onClick={onSelect}
     >
-      {/* Table body */}
-      <div
-        className={`
-          absolute rounded-full bg-card border-2 shadow-lg
-          flex items-center justify-center
-          transition-all duration-200
-          ${isSelected ? 'border-primary ring-2 ring-primary/20' : 'border-border'}
-        `}
-        style={{ 
-          width: tableDiameter, 
-          height: tableDiameter,
-          left: (containerSize - tableDiameter) / 2,
-          top: (containerSize - tableDiameter) / 2,
-        }}
-      >
-        <div className="text-center pointer-events-none">
-          <p className="font-semibold text-sm text-foreground">{table.name}</p>
-          <p className="text-xs text-muted-foreground">{assignedCount}/{table.seats.length}</p>
-        </div>
-        
-        <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
-          <GripHorizontal className="w-4 h-4 text-muted-foreground" />
+      {/* Rotated layer: table body and seats turn around the table center */}
+      <div className="absolute inset-0" style={{ transform: `rotate(${table.rotation}deg)` }}>
+        {/* Table body */}
+        <div
+          className={`
+            absolute rounded-full bg-card border-2 shadow-lg
+            flex items-center justify-center
+            transition-all duration-200
+            ${isSelected ? 'border-primary ring-2 ring-primary/20' : 'border-border'}
+          `}
+          style={{ 
+            width: tableDiameter, 
+            height: tableDiameter,
+            left: (containerSize - tableDiameter) / 2,
+            top: (containerSize - tableDiameter) / 2,
+          }}
+        >
+          <div className="text-center pointer-events-none" style={{ transform: `rotate(${-table.rotation}deg)` }}>
+            <p className="font-semibold text-sm text-foreground">{table.name}</p>
+            <p className="text-xs text-muted-foreground">{assignedCount}/{table.seats.length}</p>
+          </div>
+          
+          <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
+            <GripHorizontal className="w-4 h-4 text-muted-foreground" />
+          </div>
         </div>
-      </div>
 
-      {/* Seats */}
-      {table.seats.map((seat, index) => {
-        const position = getSeatPosition(index, table.seats.length);
-        const guest = seat.guestId ? guests.find((g) => g.id === seat.guestId) || null : null;
-        
-        return (
-          <Seat
-            key={seat.id}
-            seatId={seat.id}
-            tableId={table.id}
-            guest={guest}
-            position={position}
-            size={seatSize}
-            index={index}
-            onUnassign={unassignGuestFromSeat}
-            onDrop={onDropOnSeat}
-            isDragOver={!!draggedGuest && !guest}
-            forceTooltip={showAllTooltips}
-            tableCenter={{ x: centerOffset, y: centerOffset }}
-          />
-        );
-      })}
+        {/* Seats */}
+        {table.seats.map((seat, index) => {
+          const position = seatPositions[index];
+          const guest = seat.guestId ? guests.find((g) => g.id === seat.guestId) || null : null;
+          
+          return (
+            <Seat
+              key={seat.id}
+              seatId={seat.id}
+              tableId={table.id}
+              guest={guest}
+              position={position}
+              size={seatSize}
+              index={index}
+              onUnassign={unassignGuestFromSeat}
+              onDrop={onDropOnSeat}
+              onDropGroup={onDropGroup}
+              isDragOver={!!draggedGuest && !guest}
+              forceTooltip={showAllTooltips}
+              rotation={table.rotation}
+              tableCenter={{ x: centerOffset, y: centerOffset }}
+            />
+          );
+        })}
+
+        {isSelected && (
+          <RotationHandle pivotRef={tableRef} onRotate={(rotation) => updateTableRotation(table.id, rotation)} />
+        )}
+      </div>
 
       {/* Controls */}
       {isSelected && (
@@ -0,0 +1,104 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { Bounds } from '@/lib/tableGeometry';
+
+// Canvas origin offset (in screen pixels, relative to the container) and zoom factor
+export interface Viewport {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export const MIN_SCALE = 0.3;
+export const MAX_SCALE = 3;
+
+const clampScale = (scale: number) => Math.min(Math.max(scale, MIN_SCALE), MAX_SCALE);
+
+// Pan/zoom state of the canvas plus screen <-> canvas coordinate conversion
+export function useCanvasViewport(containerRef: React.RefObject<HTMLDivElement | null>) {
+  const [viewport, setViewport] = useState<Viewport>({ scale: 1, x: 0, y: 0 });
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [containerRef]);
+
+  // Zoom keeping the given screen point fixed on the same canvas point
+  const zoomAt = useCallback((clientX: number, clientY: number, factor: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    const px = rect ? clientX - rect.left : 0;
+    const py = rect ? clientY - rect.top : 0;
+
+    setViewport((v) => {
+      const scale = clampScale(v.scale * factor);
+      const k = scale / v.scale;
+      return { scale, x: px - (px - v.x) * k, y: py - (py - v.y) * k };
+    });
+  }, [containerRef]);
+
+  const zoomToCenter = useCallback((getFactor: (scale: number) => number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    zoomAt(rect.left + rect.width / 2, rect.top + rect.height / 2, getFactor(viewport.scale));
+  }, [containerRef, zoomAt, viewport.scale]);
+
+  const zoomIn = useCallback(() => zoomToCenter(() => 1.2), [zoomToCenter]);
+  const zoomOut = useCallback(() => zoomToCenter(() => 1 / 1.2), [zoomToCenter]);
+  const resetZoom = useCallback(() => zoomToCenter((scale) => 1 / scale), [zoomToCenter]);
+
+  const panBy = useCallback((dx: number, dy: number) => {
+    setViewport((v) => ({ ...v, x: v.x + dx, y: v.y + dy }));
+  }, []);
+
+  const screenToCanvas = useCallback((clientX: number, clientY: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    const px = rect ? clientX - rect.left : clientX;
+    const py = rect ? clientY - rect.top : clientY;
+    return { x: (px - viewport.x) / viewport.scale, y: (py - viewport.y) / viewport.scale };
+  }, [containerRef, viewport]);
+
+  // Move the view so that the canvas point ends up in the middle of the container
+  const centerOn = useCallback((canvasX: number, canvasY: number) => {
+    setViewport((v) => ({
+      ...v,
+      x: size.width / 2 - canvasX * v.scale,
+      y: size.height / 2 - canvasY * v.scale,
+    }));
+  }, [size]);
+
+  const fitToBounds = useCallback((bounds: Bounds, padding = 40) => {
+    if (size.width === 0 || size.height === 0) return;
+
+    const contentWidth = Math.max(bounds.maxX - bounds.minX, 1);
+    const contentHeight = Math.max(bounds.maxY - bounds.minY, 1);
+    const scale = clampScale(Math.min(
+      (size.width - padding * 2) / contentWidth,
+      (size.height - padding * 2) / contentHeight
+    ));
+
+    setViewport({
+      scale,
+      x: (size.width - contentWidth * scale) / 2 - bounds.minX * scale,
+      y: (size.height - contentHeight * scale) / 2 - bounds.minY * scale,
+    });
+  }, [size]);
+
+  return {
+    viewport,
+    size,
+    zoomAt,
+    zoomIn,
+    zoomOut,
+    resetZoom,
+    panBy,
+    screenToCanvas,
+    centerOn,
+    fitToBounds,
+  };
+}
@@ -1,7 +1,18 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
-import type { Table, Guest, SeatingLayout, TableType, Seat, TableRow } from '@/types';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { toast } from 'sonner';
+import type { Table, Guest, SeatingLayout, TableType, Seat, TableRow, SeatingConstraint, GuestGroup, GuestDetails, GuestDiet, GuestUpdate, PlanSettings, RsvpStatus, CompanionKind, NameOrderSetting, EventDetails, BackgroundImage, VenueObject, VenueObjectType, VenueObjectUpdate } from '@/types';
 import { v4 as uuidv4 } from 'uuid';
+import { DEFAULT_EVENT_NAME, LAYOUT_SCHEMA_VERSION, migrateLayoutData } from '@/lib/layoutMigrations';
+import { createCompanionGuest } from '@/lib/companions';
+import { detectNameOrder, formatFullName, parseGuestName, type ParsedGuestName } from '@/lib/guestNames';
+import { GROUP_COLORS } from '@/lib/guestGroups';
+import { findDuplicateOf, isCertainDuplicate } from '@/lib/duplicates';
+import type { GuestImportRecord } from '@/lib/guestImport';
+import { pruneConstraints, solveSeating, type AutoSeatOptions, type AutoSeatResult } from '@/lib/autoSeat';
+import type { TablePosition } from '@/lib/tableArrangement';
+import { VENUE_OBJECT_DEFAULTS, venueObjectTypeLabels } from '@/lib/venueObjects';
+import type { TableSize } from '@/lib/tablePresets';
 
 interface TableConfigUpdate {
   name?: string;
@@ -16,29 +27,217 @@ interface TableConfigUpdate {
   rowConfigs?: TableRow[]; // For amphitheater
 }
 
+export type ImportMode = 'replace' | 'merge' | 'new-event';
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+export interface HistoryEntry {
+  label: string;
+  snapshot: SeatingLayout; // Layout as it was before the operation
+  timestamp: number;
+  coalesceKey?: string;
+}
+
 interface SeatingStore extends SeatingLayout {
   // Guest management
-  addGuest: (firstName: string, lastName: string, middleName?: string) => void;
+  addGuest: (firstName: string, lastName: string, middleName?: string, details?: GuestDetails) => void;
   removeGuest: (guestId: string) => void;
-  importGuests: (names: string[]) => void;
+  updateGuest: (guestId: string, changes: GuestUpdate) => void;
+  mergeGuests: (keepId: string, removeId: string) => void;
+  setGuestTags: (guestId: string, tags: string[], categoryColor?: string) => void;
+  setGuestDiet: (guestId: string, diet: GuestDiet) => void;
+  setGuestRsvp: (guestId: string, rsvp: RsvpStatus) => void;
+
+  // Companions (+1, children)
+  addCompanion: (primaryId: string, kind: CompanionKind) => void;
+  fillCompanionName: (guestId: string, firstName: string, lastName: string, middleName?: string) => void;
+  seatCompanionsNear: (primaryId: string) => { seated: number; notSeated: number };
+  importGuests: (names: string[], skipDuplicates?: boolean) => { imported: number; skipped: number };
+  importGuestRecords: (records: GuestImportRecord[]) => { imported: number; groupsCreated: number };
   
   // Table management
-  addTable: (type: TableType, name: string, x: number, y: number) => void;
+  addTable: (type: TableType, name: string, x: number, y: number, size?: TableSize) => void;
   removeTable: (tableId: string) => void;
+  removeTables: (tableIds: string[]) => void;
   updateTablePosition: (tableId: string, x: number, y: number) => void;
+  moveTables: (positions: TablePosition[], label?: string) => void;
   updateTableRotation: (tableId: string, rotation: number) => void;
   updateTableConfig: (tableId: string, config: TableConfigUpdate) => void;
+  updateTablesConfig: (tableIds: string[], config: TableConfigUpdate) => void;
+
+  // Venue objects (stage, bar, walls...)
+  addVenueObject: (type: VenueObjectType, x: number, y: number) => string;
+  removeVenueObject: (objectId: string) => void;
+  moveVenueObject: (objectId: string, x: number, y: number) => void;
+  updateVenueObject: (objectId: string, changes: VenueObjectUpdate) => void;
+
+  // Background image of the venue plan
+  setBackgroundImage: (image: BackgroundImage | null) => void;
+  updateBackgroundImage: (changes: Partial<BackgroundImage>) => void;
   
   // Seating assignment
   assignGuestToSeat: (guestId: string, tableId: string, seatId: string) => void;
   unassignGuestFromSeat: (tableId: string, seatId: string) => void;
   moveGuestBetweenSeats: (guestId: string, fromTableId: string, fromSeatId: string, toTableId: string, toSeatId: string) => void;
   
+  // Guest groups
+  addGroup: (group: Omit<GuestGroup, 'id'>, guestIds: string[]) => void;
+  updateGroup: (groupId: string, changes: Partial<Omit<GuestGroup, 'id'>>, guestIds?: string[]) => void;
+  removeGroup: (groupId: string) => void;
+  seatGroupAtTable: (groupId: string, tableId: string, seatId: string) => { seated: number; notSeated: number };
+
+  // Seating constraints and auto-seating
+  addConstraint: (constraint: DistributiveOmit<SeatingConstraint, 'id'>) => void;
+  removeConstraint: (constraintId: string) => void;
+  autoSeat: (options: AutoSeatOptions) => AutoSeatResult;
+
+  // Plan settings
+  setExcludeDeclined: (excludeDeclined: boolean) => void;
+  setNameOrder: (nameOrder: NameOrderSetting) => void;
+  setGridSettings: (changes: Partial<Pick<PlanSettings, 'gridSize' | 'snapToGrid'>>) => void;
+  setMeasurementSettings: (changes: Partial<Pick<PlanSettings, 'lengthUnit' | 'minClearance'>>) => void;
+  unseatDeclinedGuests: () => number;
+
+  // Events: the active event's plan lives in the layout fields above, the others wait in storedEvents
+  activeEventId: string;
+  eventIds: string[]; // Order of the event picker
+  storedEvents: Record<string, SeatingLayout>;
+  createEvent: (details: EventDetails) => string;
+  switchEvent: (eventId: string) => void;
+  duplicateEvent: (eventId: string) => string;
+  updateEventDetails: (eventId: string, details: EventDetails) => void;
+  deleteEvent: (eventId: string) => void;
+
   // Layout
+  importLayout: (layout: SeatingLayout, mode: ImportMode) => void;
   clearLayout: () => void;
   resetAll: () => void;
+
+  // History (not persisted)
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  undo: () => void;
+  redo: () => void;
+  endGesture: () => void; // Called when a drag ends, so the next drag is a separate undo step
 }
 
+// localStorage with the quota error caught: a full storage must not make every action throw.
+// The plan stays in memory and can still be exported; the user is told once per failed streak
+let isStorageFull = false;
+const planStorage = createJSONStorage(() => {
+  const storage = localStorage;
+  return {
+    getItem: (name: string) => storage.getItem(name),
+    setItem: (name: string, value: string) => {
+      try {
+        storage.setItem(name, value);
+        isStorageFull = false;
+      } catch {
+        if (isStorageFull) return;
+        isStorageFull = true;
+        toast.error('План не сохраняется в браузере', {
+          description: 'Хранилище браузера заполнено. Экспортируйте план в файл, удалите подложку или лишние мероприятия',
+        });
+      }
+    },
+    removeItem: (name: string) => storage.removeItem(name),
+  };
+});
+
+const HISTORY_LIMIT = 100;
+// Repeated updates with the same key (e.g. a table drag) within this window form one undo step
+const HISTORY_COALESCE_MS = 1000;
+
+// Plan data without actions and history: what gets persisted, exported and snapshotted
+export const selectLayout = (state: SeatingLayout): SeatingLayout => ({
+  event: state.event,
+  tables: state.tables,
+  venueObjects: state.venueObjects,
+  backgroundImage: state.backgroundImage,
+  guests: state.guests,
+  unassignedGuests: state.unassignedGuests,
+  constraints: state.constraints,
+  groups: state.groups,
+  settings: state.settings,
+});
+
+export const DEFAULT_PLAN_SETTINGS: PlanSettings = {
+  excludeDeclined: false,
+  nameOrder: 'auto',
+  gridSize: 20,
+  snapToGrid: true,
+  lengthUnit: 'cm',
+  minClearance: 90,
+};
+
+type PersistedStore = SeatingLayout & Pick<SeatingStore, 'activeEventId' | 'eventIds' | 'storedEvents'>;
+
+// Plan of any event, whether it is the active one or parked
+export const getEventLayout = (state: PersistedStore, eventId: string): SeatingLayout | undefined =>
+  eventId === state.activeEventId ? selectLayout(state) : state.storedEvents[eventId];
+
+const createEmptyLayout = (event: EventDetails): SeatingLayout => ({
+  event,
+  tables: [],
+  venueObjects: [],
+  backgroundImage: null,
+  guests: [],
+  unassignedGuests: [],
+  constraints: [],
+  groups: [],
+  settings: DEFAULT_PLAN_SETTINGS,
+});
+
+const omitEvent = (events: Record<string, SeatingLayout>, eventId: string) =>
+  Object.fromEntries(Object.entries(events).filter(([id]) => id !== eventId));
+
+// Park the active plan and load another one; undo history belongs to a single plan and is dropped
+const activateEvent = (
+  state: SeatingStore,
+  eventId: string,
+  layout: SeatingLayout,
+  eventIds = state.eventIds
+): Partial<SeatingStore> => {
+  return {
+    ...layout,
+    activeEventId: eventId,
+    eventIds,
+    storedEvents: { ...omitEvent(state.storedEvents, eventId), [state.activeEventId]: selectLayout(state) },
+    past: [],
+    future: [],
+  };
+};
+
+const insertAfter = (ids: string[], afterId: string, id: string) => {
+  const index = ids.indexOf(afterId);
+  return index === -1 ? [...ids, id] : [...ids.slice(0, index + 1), id, ...ids.slice(index + 1)];
+};
+
+const pushHistory = (state: SeatingStore, label: string, coalesceKey?: string): Pick<SeatingStore, 'past' | 'future'> => {
+  const now = Date.now();
+  const last = state.past[state.past.length - 1];
+
+  if (coalesceKey && last?.coalesceKey === coalesceKey && now - last.timestamp < HISTORY_COALESCE_MS) {
+    return { past: [...state.past.slice(0, -1), { ...last, timestamp: now }], future: [] };
+  }
+
+  return {
+    past: [...state.past, { label, snapshot: selectLayout(state), timestamp: now, coalesceKey }].slice(-HISTORY_LIMIT),
+    future: [],
+  };
+};
+
+// Wrap a state updater so that every real change is recorded as an undo step
+const withHistory = (
+  label: string,
+  recipe: (state: SeatingStore) => Partial<SeatingStore>,
+  coalesceKey?: string
+) => (state: SeatingStore): Partial<SeatingStore> => {
+  const next = recipe(state);
+  if (next === state) return state;
+  return { ...next, ...pushHistory(state, label, coalesceKey) };
+};
+
 const createSeats = (type: TableType, seatsCount: number, rows?: number, seatsPerRow?: number): Seat[] => {
   const seats: Seat[] = [];
   
@@ -67,7 +266,66 @@ const createSeats = (type: TableType, seatsCount: number, rows?: number, seatsPe
   return seats;
 };
 
-const getDefaultTableSize = (type: TableType): { width: number; height: number; seats: number } => {
+// Applies a config change to one table, recreating seats (and keeping who sits where as far
+// as possible) when the seating changed
+// Guests whose seat disappears with fewer seats are returned, so the caller can unseat them
+const applyTableConfig = (table: Table, config: TableConfigUpdate): { table: Table; displacedGuestIds: string[] } => {
+  const updatedTable: Table = { ...table };
+  
+  // Apply simple updates
+  if (config.name !== undefined) updatedTable.name = config.name;
+  if (config.x !== undefined) updatedTable.x = config.x;
+  if (config.y !== undefined) updatedTable.y = config.y;
+  if (config.rotation !== undefined) updatedTable.rotation = config.rotation;
+  if (config.width !== undefined) updatedTable.width = config.width;
+  if (config.height !== undefined) updatedTable.height = config.height;
+  if (config.rows !== undefined) updatedTable.rows = config.rows;
+  if (config.seatsPerRow !== undefined) updatedTable.seatsPerRow = config.seatsPerRow;
+  if (config.rowConfigs !== undefined) updatedTable.rowConfigs = config.rowConfigs;
+  
+  // Recreate seats if seating configuration changed
+  if (config.seats !== undefined || config.rows !== undefined || config.seatsPerRow !== undefined || config.rowConfigs !== undefined) {
+    // For amphitheater with rowConfigs
+    if (config.rowConfigs) {
+      const seatsCount = config.seats ?? config.rowConfigs.reduce((sum, r) => sum + r.seatCount, 0);
+      const existingSeats = table.seats;
+      const newSeats: Seat[] = [];
+      
+      for (let i = 0; i < seatsCount; i++) {
+        newSeats.push({
+          id: i < existingSeats.length ? existingSeats[i].id : uuidv4(),
+          guestId: i < existingSeats.length ? existingSeats[i].guestId : null,
+          position: i,
+        });
+      }
+      
+      updatedTable.seats = newSeats;
+    } else {
+      const seatsCount = config.seats ?? table.seats.length;
+      const rows = config.rows ?? table.rows;
+      const seatsPerRow = config.seatsPerRow ?? table.seatsPerRow;
+      
+      // Preserve existing guest assignments where possible
+      const existingSeats = table.seats;
+      const newSeats = createSeats(table.type, seatsCount, rows, seatsPerRow);
+      
+      for (let i = 0; i < Math.min(existingSeats.length, newSeats.length); i++) {
+        newSeats[i].guestId = existingSeats[i].guestId;
+      }
+      
+      updatedTable.seats = newSeats;
+    }
+  }
+
+  const keptGuestIds = new Set(updatedTable.seats.map((s) => s.guestId));
+  const displacedGuestIds = table.seats
+    .map((s) => s.guestId)
+    .filter((id): id is string => id !== null && !keptGuestIds.has(id));
+
+  return { table: updatedTable, displacedGuestIds };
+};
+
+const getDefaultTableSize = (type: TableType): TableSize => {
   switch (type) {
     case 'round':
       return { width: 160, height: 160, seats: 8 };
@@ -84,106 +342,422 @@ const getDefaultTableSize = (type: TableType): { width: number; height: number;
   }
 };
 
-const parseGuestName = (fullName: string): { firstName: string; lastName: string; middleName?: string } => {
-  const parts = fullName.trim().split(/\s+/).filter(p => p.length > 0);
-  
-  if (parts.length === 0) {
-    return { firstName: '', lastName: '' };
-  }
-  
-  if (parts.length === 1) {
-    // Only one name provided - treat as first name
-    return { firstName: parts[0], lastName: '' };
-  } else if (parts.length === 2) {
-    // Two parts: "Фамилия Имя" (Russian standard format)
-    return { lastName: parts[0], firstName: parts[1] };
-  } else {
-    // 3+ parts: "Фамилия Имя Отчество" (Russian standard format with patronymic)
-    // Or "LastName FirstName MiddleName" for English format
-    return { 
-      lastName: parts[0],
-      firstName: parts[1],
-      middleName: parts.slice(2).join(' ')
-    };
+// Give imported tables, seats and guests fresh ids so a merged plan never collides with the current one
+const remapLayoutIds = (layout: SeatingLayout): SeatingLayout => {
+  const guestIdMap = new Map(layout.guests.map((g) => [g.id, uuidv4()]));
+  const tableIdMap = new Map(layout.tables.map((t) => [t.id, uuidv4()]));
+  const groupIdMap = new Map(layout.groups.map((g) => [g.id, uuidv4()]));
+  const remapGuestId = (id: string) => guestIdMap.get(id) ?? id;
+
+  return {
+    tables: layout.tables.map((table) => ({
+      ...table,
+      id: tableIdMap.get(table.id)!,
+      seats: table.seats.map((seat) => ({
+        ...seat,
+        id: uuidv4(),
+        guestId: seat.guestId ? remapGuestId(seat.guestId) : null,
+      })),
+    })),
+    guests: layout.guests.map((guest) => ({
+      ...guest,
+      id: remapGuestId(guest.id),
+      groupId: guest.groupId ? groupIdMap.get(guest.groupId) : undefined,
+      companionOf: guest.companionOf ? remapGuestId(guest.companionOf) : undefined,
+    })),
+    groups: layout.groups.map((group) => ({ ...group, id: groupIdMap.get(group.id)! })),
+    venueObjects: layout.venueObjects.map((object) => ({ ...object, id: uuidv4() })),
+    backgroundImage: layout.backgroundImage,
+    event: layout.event,
+    settings: layout.settings,
+    unassignedGuests: layout.unassignedGuests.map(remapGuestId),
+    constraints: layout.constraints.map((constraint) => {
+      switch (constraint.type) {
+        case 'pin':
+          return {
+            ...constraint,
+            id: uuidv4(),
+            guestId: remapGuestId(constraint.guestId),
+            tableId: tableIdMap.get(constraint.tableId) ?? constraint.tableId,
+          };
+        case 'apart':
+          return { ...constraint, id: uuidv4(), guestIds: [remapGuestId(constraint.guestIds[0]), remapGuestId(constraint.guestIds[1])] };
+        default:
+          return { ...constraint, id: uuidv4(), guestIds: constraint.guestIds.map(remapGuestId) };
+      }
+    }),
+  };
+};
+
+// Free the seats of the given guests and move them back to the unassigned list
+const unseatGuests = (state: SeatingLayout, guestIds: Set<string>): Pick<SeatingLayout, 'tables' | 'unassignedGuests'> => {
+  const seatedIds = state.tables.flatMap((t) => t.seats)
+    .filter((s) => s.guestId && guestIds.has(s.guestId))
+    .map((s) => s.guestId!);
+  return {
+    tables: state.tables.map((table) => ({
+      ...table,
+      seats: table.seats.map((seat) => seat.guestId && guestIds.has(seat.guestId) ? { ...seat, guestId: null } : seat),
+    })),
+    unassignedGuests: [...state.unassignedGuests, ...seatedIds],
+  };
+};
+
+// Put guests on the given seats of one table, freeing any seat they held before
+const placeAtTable = (state: SeatingLayout, tableId: string, seatToGuest: Map<string, string>): Pick<SeatingLayout, 'tables' | 'unassignedGuests'> => {
+  const movedIds = new Set(seatToGuest.values());
+  return {
+    tables: state.tables.map((t) => ({
+      ...t,
+      seats: t.seats.map((s) => {
+        if (t.id === tableId && seatToGuest.has(s.id)) return { ...s, guestId: seatToGuest.get(s.id)! };
+        return s.guestId && movedIds.has(s.guestId) ? { ...s, guestId: null } : s;
+      }),
+    })),
+    unassignedGuests: state.unassignedGuests.filter((id) => !movedIds.has(id)),
+  };
+};
+
+// Fields of the guest that stays win; lists are combined and gaps are filled from the other one
+const mergeGuestFields = (keep: Guest, remove: Guest): Guest => {
+  const union = <T,>(a?: T[], b?: T[]) => {
+    const merged = [...new Set([...(a || []), ...(b || [])])];
+    return merged.length > 0 ? merged : undefined;
+  };
+  const notes = [keep.dietaryNotes, remove.dietaryNotes].filter((n) => n?.trim());
+
+  return {
+    ...remove,
+    ...Object.fromEntries(Object.entries(keep).filter(([, value]) => value !== undefined)),
+    id: keep.id,
+    tags: union(keep.tags, remove.tags),
+    dietary: union(keep.dietary, remove.dietary),
+    dietaryNotes: notes.length > 0 ? [...new Set(notes)].join('; ') : undefined,
+    placeholder: keep.placeholder && remove.placeholder ? true : undefined,
+  } as Guest;
+};
+
+const getDeclinedIds = (guests: Guest[]) => new Set(guests.filter((g) => g.rsvp === 'declined').map((g) => g.id));
+
+// Free seats closest to the start seat, alternating to both sides of it.
+// Seats around round/square/rectangle tables wrap around; theater rows do not.
+const pickAdjacentFreeSeats = (table: Table, startSeatId: string, count: number): Seat[] => {
+  const seats = [...table.seats].sort((a, b) => a.position - b.position);
+  const start = seats.findIndex((s) => s.id === startSeatId);
+  if (start === -1) return [];
+
+  const wraps = table.type !== 'theater' && table.type !== 'amphitheater';
+  const picked: Seat[] = [];
+  for (let distance = 0; distance < seats.length && picked.length < count; distance++) {
+    const candidates = distance === 0 ? [start] : [start + distance, start - distance];
+    for (const raw of candidates) {
+      const index = wraps ? (raw + seats.length) % seats.length : raw;
+      const seat = seats[index];
+      if (seat && !seat.guestId && !picked.includes(seat) && picked.length < count) {
+        picked.push(seat);
+      }
+    }
   }
+  return picked;
 };
 
+// Plans saved before events existed become this event on first load
+const INITIAL_EVENT_ID = uuidv4();
+
 export const useSeatingStore = create<SeatingStore>()(
   persist(
-    (set) => ({
-      tables: [],
-      guests: [],
-      unassignedGuests: [],
-
-      addGuest: (firstName: string, lastName: string, middleName?: string) => {
-        // Format: "Фамилия Имя" or "Фамилия Имя Отчество"
-        const formattedFullName = middleName?.trim() 
-          ? `${lastName.trim()} ${firstName.trim()} ${middleName.trim()}`
-          : `${lastName.trim()} ${firstName.trim()}`.trim();
-        
-        const guest: Guest = {
-          id: uuidv4(),
+    (set, get) => ({
+      ...createEmptyLayout({ name: DEFAULT_EVENT_NAME }),
+      activeEventId: INITIAL_EVENT_ID,
+      eventIds: [INITIAL_EVENT_ID],
+      storedEvents: {},
+      past: [],
+      future: [],
+
+      addGuest: (firstName: string, lastName: string, middleName?: string, details?: GuestDetails) => {
+        const name: ParsedGuestName = {
           firstName: firstName.trim(),
           lastName: lastName.trim(),
           middleName: middleName?.trim() || undefined,
-          fullName: formattedFullName,
+          prefix: details?.prefix?.trim() || undefined,
+          suffix: details?.suffix?.trim() || undefined,
+        };
+        name.nameOrder = details?.nameOrder ?? detectNameOrder(name, get().settings.nameOrder);
+
+        const guest: Guest = {
+          ...details,
+          ...name,
+          id: uuidv4(),
+          fullName: formatFullName(name),
         };
-        set((state) => ({
+        set(withHistory('Добавление гостя', (state) => ({
           guests: [...state.guests, guest],
           unassignedGuests: [...state.unassignedGuests, guest.id],
-        }));
+        })));
       },
 
       removeGuest: (guestId: string) => {
-        set((state) => {
-          // Remove guest from any seat they're assigned to
+        set(withHistory('Удаление гостя', (state) => {
+          // Unnamed companions go with the primary guest, named ones stay as regular guests
+          const removedIds = new Set([
+            guestId,
+            ...state.guests.filter((g) => g.companionOf === guestId && g.placeholder).map((g) => g.id),
+          ]);
+
+          // Remove guests from any seat they're assigned to
           const updatedTables = state.tables.map((table) => ({
             ...table,
             seats: table.seats.map((seat) =>
-              seat.guestId === guestId ? { ...seat, guestId: null } : seat
+              seat.guestId && removedIds.has(seat.guestId) ? { ...seat, guestId: null } : seat
             ),
           }));
 
+          const guests = state.guests
+            .filter((g) => !removedIds.has(g.id))
+            .map((g) => g.companionOf === guestId ? { ...g, companionOf: undefined, companionKind: undefined } : g);
+
           return {
             tables: updatedTables,
-            guests: state.guests.filter((g) => g.id !== guestId),
-            unassignedGuests: state.unassignedGuests.filter((id) => id !== guestId),
+            guests,
+            unassignedGuests: state.unassignedGuests.filter((id) => !removedIds.has(id)),
+            constraints: pruneConstraints(state.constraints, guests, updatedTables),
           };
-        });
+        }));
+      },
+
+      updateGuest: (guestId: string, changes: GuestUpdate) => {
+        const guest = get().guests.find((g) => g.id === guestId);
+        if (!guest) return;
+
+        // Empty text fields are removed rather than stored as ""
+        const trimmed = Object.fromEntries(Object.entries(changes).map(([key, value]) =>
+          [key, typeof value === 'string' ? value.trim() || undefined : value]
+        )) as GuestUpdate;
+        const updated: Guest = { ...guest, ...trimmed };
+        updated.firstName = updated.firstName ?? '';
+        updated.lastName = updated.lastName ?? '';
+
+        // fullName follows the name parts; a placeholder companion that got a real name becomes a regular guest
+        if (formatFullName(updated) !== formatFullName(guest)) {
+          updated.fullName = formatFullName(updated);
+          updated.placeholder = undefined;
+        }
+
+        set(withHistory(`Изменение гостя «${updated.fullName}»`, (state) => ({
+          guests: state.guests.map((g) => (g.id === guestId ? updated : g)),
+        })));
+      },
+
+      mergeGuests: (keepId: string, removeId: string) => {
+        const { guests } = get();
+        const keep = guests.find((g) => g.id === keepId);
+        const remove = guests.find((g) => g.id === removeId);
+        if (!keep || !remove || keepId === removeId) return;
+
+        set(withHistory(`Объединение гостей «${keep.fullName}»`, (state) => {
+          // The kept guest takes over the other seat when it has none of its own
+          const keepSeated = state.tables.some((t) => t.seats.some((s) => s.guestId === keepId));
+          const tables = state.tables.map((table) => ({
+            ...table,
+            seats: table.seats.map((seat) => {
+              if (seat.guestId !== removeId) return seat;
+              return { ...seat, guestId: keepSeated ? null : keepId };
+            }),
+          }));
+          const keepSeatedNow = tables.some((t) => t.seats.some((s) => s.guestId === keepId));
+
+          const replaceId = (id: string) => (id === removeId ? keepId : id);
+
+          // A +1 merged into their primary would come with themselves: they stop being a companion
+          const merged = mergeGuestFields(keep, remove);
+          const companionOf = merged.companionOf && replaceId(merged.companionOf);
+          const kept: Guest = companionOf && companionOf !== keepId
+            ? { ...merged, companionOf }
+            : { ...merged, companionOf: undefined, companionKind: undefined };
+          const updatedGuests = state.guests
+            .filter((g) => g.id !== removeId)
+            .map((g) => {
+              if (g.id === keepId) return kept;
+              return g.companionOf === removeId ? { ...g, companionOf: keepId } : g;
+            });
+
+          // One guest sits at one table: the kept guest's own pin wins over the removed one's
+          const keepPinned = state.constraints.some((c) => c.type === 'pin' && c.guestId === keepId);
+          const constraints = state.constraints
+            .filter((constraint) => !(keepPinned && constraint.type === 'pin' && constraint.guestId === removeId))
+            .map((constraint): SeatingConstraint => {
+              switch (constraint.type) {
+                case 'pin':
+                  return { ...constraint, guestId: replaceId(constraint.guestId) };
+                case 'apart':
+                  return { ...constraint, guestIds: [replaceId(constraint.guestIds[0]), replaceId(constraint.guestIds[1])] };
+                default:
+                  return { ...constraint, guestIds: [...new Set(constraint.guestIds.map(replaceId))] };
+              }
+            })
+            .filter((constraint) => constraint.type !== 'apart' || constraint.guestIds[0] !== constraint.guestIds[1]);
+
+          const unassigned = state.unassignedGuests.filter((id) => id !== removeId && id !== keepId);
+          return {
+            tables,
+            guests: updatedGuests,
+            unassignedGuests: keepSeatedNow ? unassigned : [...unassigned, keepId],
+            constraints: pruneConstraints(constraints, updatedGuests, tables),
+          };
+        }));
+      },
+
+      addCompanion: (primaryId: string, kind: CompanionKind) => {
+        const primary = get().guests.find((g) => g.id === primaryId);
+        if (!primary) return;
+
+        const companion: Guest = { ...createCompanionGuest(primary, kind), id: uuidv4() };
+        set(withHistory(kind === 'child' ? 'Добавление ребёнка' : 'Добавление спутника', (state) => ({
+          guests: [...state.guests, companion],
+          unassignedGuests: [...state.unassignedGuests, companion.id],
+        })));
       },
 
-      importGuests: (names: string[]) => {
+      fillCompanionName: (guestId: string, firstName: string, lastName: string, middleName?: string) => {
+        const name: ParsedGuestName = {
+          firstName: firstName.trim(),
+          lastName: lastName.trim(),
+          middleName: middleName?.trim() || undefined,
+        };
+        name.nameOrder = detectNameOrder(name, get().settings.nameOrder);
+
+        set(withHistory('Имя спутника', (state) => ({
+          guests: state.guests.map((g) => g.id === guestId
+            ? { ...g, ...name, fullName: formatFullName(name), placeholder: undefined }
+            : g),
+        })));
+      },
+
+      seatCompanionsNear: (primaryId: string) => {
+        const { guests, tables, unassignedGuests, settings } = get();
+        const companions = guests.filter((g) =>
+          g.companionOf === primaryId &&
+          unassignedGuests.includes(g.id) &&
+          !(settings.excludeDeclined && g.rsvp === 'declined')
+        );
+        const table = tables.find((t) => t.seats.some((s) => s.guestId === primaryId));
+        const primarySeat = table?.seats.find((s) => s.guestId === primaryId);
+        if (!table || !primarySeat) return { seated: 0, notSeated: companions.length };
+
+        const freeSeats = pickAdjacentFreeSeats(table, primarySeat.id, companions.length);
+        const seatToGuest = new Map(freeSeats.map((seat, i) => [seat.id, companions[i].id]));
+        if (seatToGuest.size > 0) {
+          set(withHistory('Рассадка спутников', (state) => placeAtTable(state, table.id, seatToGuest)));
+        }
+
+        return { seated: seatToGuest.size, notSeated: companions.length - seatToGuest.size };
+      },
+
+      setGuestTags: (guestId: string, tags: string[], categoryColor?: string) => {
+        set(withHistory('Изменение тегов гостя', (state) => ({
+          guests: state.guests.map((g) => g.id === guestId ? { ...g, tags, categoryColor } : g),
+        }), `tags:${guestId}`));
+      },
+
+      setGuestDiet: (guestId: string, diet: GuestDiet) => {
+        set(withHistory('Изменение питания гостя', (state) => ({
+          guests: state.guests.map((g) => g.id === guestId ? { ...g, ...diet } : g),
+        }), `diet:${guestId}`));
+      },
+
+      setGuestRsvp: (guestId: string, rsvp: RsvpStatus) => {
+        set(withHistory('Изменение статуса RSVP', (state) => {
+          const guests = state.guests.map((g) => g.id === guestId ? { ...g, rsvp } : g);
+          if (rsvp !== 'declined' || !state.settings.excludeDeclined) return { guests };
+          return { guests, ...unseatGuests(state, new Set([guestId])) };
+        }));
+      },
+
+      importGuests: (names: string[], skipDuplicates = true) => {
         const newGuests: Guest[] = [];
         const newIds: string[] = [];
 
+        let skipped = 0;
+
         names.forEach((name) => {
           if (name.trim()) {
-            const parsed = parseGuestName(name.trim());
-            // Format fullName consistently: "Фамилия Имя" or "Фамилия Имя Отчество"
-            const formattedFullName = parsed.middleName 
-              ? `${parsed.lastName} ${parsed.firstName} ${parsed.middleName}`
-              : `${parsed.lastName} ${parsed.firstName}`.trim();
-            
+            const parsed = parseGuestName(name.trim(), get().settings.nameOrder);
+            // Re-importing the same list must not double everyone; similar spellings are left for the review dialog
+            const duplicate = skipDuplicates ? findDuplicateOf(parsed, [...get().guests, ...newGuests]) : undefined;
+            if (duplicate && isCertainDuplicate(duplicate.reason)) {
+              skipped++;
+              return;
+            }
+
             const guest: Guest = {
+              ...parsed,
               id: uuidv4(),
-              firstName: parsed.firstName,
-              lastName: parsed.lastName,
-              middleName: parsed.middleName,
-              fullName: formattedFullName,
+              fullName: formatFullName(parsed),
             };
             newGuests.push(guest);
             newIds.push(guest.id);
           }
         });
 
-        set((state) => ({
-          guests: [...state.guests, ...newGuests],
-          unassignedGuests: [...state.unassignedGuests, ...newIds],
-        }));
+        if (newGuests.length > 0) {
+          set(withHistory('Импорт гостей', (state) => ({
+            guests: [...state.guests, ...newGuests],
+            unassignedGuests: [...state.unassignedGuests, ...newIds],
+          })));
+        }
+
+        return { imported: newGuests.length, skipped };
+      },
+
+      importGuestRecords: (records: GuestImportRecord[]) => {
+        const { groups } = get();
+        // Group names from the file reuse existing groups (case-insensitive) or create new ones
+        const groupIdByName = new Map(groups.map((g) => [g.name.trim().toLowerCase(), g.id]));
+        const newGroups: GuestGroup[] = [];
+        const newGuests: Guest[] = records.map((record) => {
+          let groupId: string | undefined;
+          if (record.groupName) {
+            const key = record.groupName.trim().toLowerCase();
+            groupId = groupIdByName.get(key);
+            if (!groupId) {
+              groupId = uuidv4();
+              groupIdByName.set(key, groupId);
+              newGroups.push({
+                id: groupId,
+                name: record.groupName.trim(),
+                kind: 'family',
+                color: GROUP_COLORS[(groups.length + newGroups.length) % GROUP_COLORS.length],
+              });
+            }
+          }
+
+          return {
+            ...record.details,
+            id: uuidv4(),
+            firstName: record.firstName,
+            lastName: record.lastName,
+            middleName: record.middleName,
+            prefix: record.prefix,
+            suffix: record.suffix,
+            nameOrder: record.nameOrder,
+            fullName: formatFullName(record),
+            groupId,
+          };
+        });
+
+        if (newGuests.length > 0) {
+          set(withHistory('Импорт гостей из таблицы', (state) => ({
+            guests: [...state.guests, ...newGuests],
+            groups: [...state.groups, ...newGroups],
+            unassignedGuests: [...state.unassignedGuests, ...newGuests.map((g) => g.id)],
+          })));
+        }
+
+        return { imported: newGuests.length, groupsCreated: newGroups.length };
       },
 
-      addTable: (type: TableType, name: string, x: number, y: number) => {
-        const { width, height, seats } = getDefaultTableSize(type);
+      addTable: (type: TableType, name: string, x: number, y: number, size?: TableSize) => {
+        const { width, height, seats } = size ?? getDefaultTableSize(type);
         const isTheaterStyle = type === 'theater' || type === 'amphitheater';
         const isAmphitheater = type === 'amphitheater';
         
@@ -202,103 +776,150 @@ export const useSeatingStore = create<SeatingStore>()(
           seats: createSeats(type, seats, 5, 8),
         };
 
-        set((state) => ({
+        set(withHistory(`Добавление стола «${name}»`, (state) => ({
           tables: [...state.tables, newTable],
-        }));
+        })));
       },
 
       removeTable: (tableId: string) => {
-        set((state) => {
+        set(withHistory('Удаление стола', (state) => {
           const table = state.tables.find((t) => t.id === tableId);
           const assignedGuestIds = table?.seats
             .filter((s) => s.guestId)
             .map((s) => s.guestId!) || [];
 
+          const tables = state.tables.filter((t) => t.id !== tableId);
+
           return {
-            tables: state.tables.filter((t) => t.id !== tableId),
+            tables,
             unassignedGuests: [...state.unassignedGuests, ...assignedGuestIds],
+            constraints: pruneConstraints(state.constraints, state.guests, tables),
           };
-        });
+        }));
+      },
+
+      removeTables: (tableIds: string[]) => {
+        const ids = new Set(tableIds);
+        set(withHistory('Удаление столов', (state) => {
+          const assignedGuestIds = state.tables
+            .filter((t) => ids.has(t.id))
+            .flatMap((t) => t.seats.filter((s) => s.guestId).map((s) => s.guestId!));
+
+          const tables = state.tables.filter((t) => !ids.has(t.id));
+
+          return {
+            tables,
+            unassignedGuests: [...state.unassignedGuests, ...assignedGuestIds],
+            constraints: pruneConstraints(state.constraints, state.guests, tables),
+          };
+        }));
       },
 
       updateTablePosition: (tableId: string, x: number, y: number) => {
-        set((state) => ({
+        set(withHistory('Перемещение стола', (state) => ({
           tables: state.tables.map((t) =>
             t.id === tableId ? { ...t, x, y } : t
           ),
-        }));
+        }), `move:${tableId}`));
+      },
+
+      // A plain move is a drag and coalesces like one; a labelled arrangement is its own step
+      moveTables: (positions: TablePosition[], label?: string) => {
+        const byId = new Map(positions.map((p) => [p.id, p]));
+        set(withHistory(label ?? 'Перемещение столов', (state) => ({
+          tables: state.tables.map((t) => {
+            const position = byId.get(t.id);
+            return position ? { ...t, x: position.x, y: position.y } : t;
+          }),
+        }), label ? undefined : `move:${[...byId.keys()].sort().join(',')}`));
       },
 
       updateTableRotation: (tableId: string, rotation: number) => {
-        set((state) => ({
+        set(withHistory('Поворот стола', (state) => ({
           tables: state.tables.map((t) =>
             t.id === tableId ? { ...t, rotation } : t
           ),
-        }));
+        }), `rotate:${tableId}`));
       },
 
       updateTableConfig: (tableId: string, config: TableConfigUpdate) => {
-        set((state) => {
+        set(withHistory('Изменение стола', (state) => {
           const table = state.tables.find((t) => t.id === tableId);
           if (!table) return state;
 
-          const updatedTable: Table = { ...table };
-          
-          // Apply simple updates
-          if (config.name !== undefined) updatedTable.name = config.name;
-          if (config.x !== undefined) updatedTable.x = config.x;
-          if (config.y !== undefined) updatedTable.y = config.y;
-          if (config.rotation !== undefined) updatedTable.rotation = config.rotation;
-          if (config.width !== undefined) updatedTable.width = config.width;
-          if (config.height !== undefined) updatedTable.height = config.height;
-          if (config.rows !== undefined) updatedTable.rows = config.rows;
-          if (config.seatsPerRow !== undefined) updatedTable.seatsPerRow = config.seatsPerRow;
-          if (config.rowConfigs !== undefined) updatedTable.rowConfigs = config.rowConfigs;
-          
-          // Recreate seats if seating configuration changed
-          if (config.seats !== undefined || config.rows !== undefined || config.seatsPerRow !== undefined || config.rowConfigs !== undefined) {
-            // For amphitheater with rowConfigs
-            if (config.rowConfigs) {
-              const seatsCount = config.seats ?? config.rowConfigs.reduce((sum, r) => sum + r.seatCount, 0);
-              const existingSeats = table.seats;
-              const newSeats: Seat[] = [];
-              
-              for (let i = 0; i < seatsCount; i++) {
-                newSeats.push({
-                  id: i < existingSeats.length ? existingSeats[i].id : uuidv4(),
-                  guestId: i < existingSeats.length ? existingSeats[i].guestId : null,
-                  position: i,
-                });
-              }
-              
-              updatedTable.seats = newSeats;
-            } else {
-              const seatsCount = config.seats ?? table.seats.length;
-              const rows = config.rows ?? table.rows;
-              const seatsPerRow = config.seatsPerRow ?? table.seatsPerRow;
-              
-              // Preserve existing guest assignments where possible
-              const existingSeats = table.seats;
-              const newSeats = createSeats(table.type, seatsCount, rows, seatsPerRow);
-              
-              for (let i = 0; i < Math.min(existingSeats.length, newSeats.length); i++) {
-                newSeats[i].guestId = existingSeats[i].guestId;
-              }
-              
-              updatedTable.seats = newSeats;
-            }
-          }
+          const { table: updatedTable, displacedGuestIds } = applyTableConfig(table, config);
+          const tables = state.tables.map((t) =>
+            t.id === tableId ? updatedTable : t
+          );
+          if (displacedGuestIds.length === 0) return { tables };
 
           return {
-            tables: state.tables.map((t) =>
-              t.id === tableId ? updatedTable : t
-            ),
+            tables,
+            unassignedGuests: [...state.unassignedGuests, ...displacedGuestIds],
+            constraints: pruneConstraints(state.constraints, state.guests, tables),
           };
-        });
+        }, `config:${tableId}:${Object.keys(config).sort().join(',')}`));
+      },
+
+      updateTablesConfig: (tableIds: string[], config: TableConfigUpdate) => {
+        const ids = new Set(tableIds);
+        set(withHistory('Изменение столов', (state) => {
+          const displacedGuestIds: string[] = [];
+          const tables = state.tables.map((t) => {
+            if (!ids.has(t.id)) return t;
+            const result = applyTableConfig(t, config);
+            displacedGuestIds.push(...result.displacedGuestIds);
+            return result.table;
+          });
+          if (displacedGuestIds.length === 0) return { tables };
+
+          return {
+            tables,
+            unassignedGuests: [...state.unassignedGuests, ...displacedGuestIds],
+            constraints: pruneConstraints(state.constraints, state.guests, tables),
+          };
+        }, `config:${[...ids].sort().join(',')}:${Object.keys(config).sort().join(',')}`));
+      },
+
+      addVenueObject: (type: VenueObjectType, x: number, y: number) => {
+        const { width, height, label } = VENUE_OBJECT_DEFAULTS[type];
+        const object: VenueObject = { id: uuidv4(), type, label, x, y, width, height, rotation: 0 };
+        set(withHistory(`Добавление объекта «${venueObjectTypeLabels[type]}»`, (state) => ({
+          venueObjects: [...state.venueObjects, object],
+        })));
+        return object.id;
+      },
+
+      removeVenueObject: (objectId: string) => {
+        set(withHistory('Удаление объекта', (state) => ({
+          venueObjects: state.venueObjects.filter((o) => o.id !== objectId),
+        })));
+      },
+
+      moveVenueObject: (objectId: string, x: number, y: number) => {
+        set(withHistory('Перемещение объекта', (state) => ({
+          venueObjects: state.venueObjects.map((o) => (o.id === objectId ? { ...o, x, y } : o)),
+        }), `move:${objectId}`));
+      },
+
+      updateVenueObject: (objectId: string, changes: VenueObjectUpdate) => {
+        set(withHistory('Изменение объекта', (state) => ({
+          venueObjects: state.venueObjects.map((o) => (o.id === objectId ? { ...o, ...changes } : o)),
+        }), `venue:${objectId}:${Object.keys(changes).sort().join(',')}`));
+      },
+
+      setBackgroundImage: (image: BackgroundImage | null) => {
+        set(withHistory(image ? 'Загрузка подложки' : 'Удаление подложки', () => ({ backgroundImage: image })));
+      },
+
+      updateBackgroundImage: (changes: Partial<BackgroundImage>) => {
+        set(withHistory('Изменение подложки', (state) => ({
+          backgroundImage: state.backgroundImage && { ...state.backgroundImage, ...changes },
+        }), `background:${Object.keys(changes).sort().join(',')}`));
       },
 
       assignGuestToSeat: (guestId: string, tableId: string, seatId: string) => {
-        set((state) => {
+        set(withHistory('Рассадка гостя', (state) => {
           // Remove guest from any previous seat
           const tablesWithGuestRemoved = state.tables.map((t) => ({
             ...t,
@@ -323,11 +944,11 @@ export const useSeatingStore = create<SeatingStore>()(
             tables: updatedTables,
             unassignedGuests: state.unassignedGuests.filter((id) => id !== guestId),
           };
-        });
+        }));
       },
 
       unassignGuestFromSeat: (tableId: string, seatId: string) => {
-        set((state) => {
+        set(withHistory('Освобождение места', (state) => {
           const table = state.tables.find((t) => t.id === tableId);
           const seat = table?.seats.find((s) => s.id === seatId);
           const guestId = seat?.guestId;
@@ -347,11 +968,11 @@ export const useSeatingStore = create<SeatingStore>()(
             ),
             unassignedGuests: [...state.unassignedGuests, guestId],
           };
-        });
+        }));
       },
 
       moveGuestBetweenSeats: (guestId: string, fromTableId: string, fromSeatId: string, toTableId: string, toSeatId: string) => {
-        set((state) => {
+        set(withHistory('Пересадка гостя', (state) => {
           let displacedGuestId: string | null = null;
           
           const updatedTables = state.tables.map((t) => {
@@ -387,11 +1008,218 @@ export const useSeatingStore = create<SeatingStore>()(
             tables: updatedTables,
             unassignedGuests: newUnassigned
           };
+        }));
+      },
+
+      addGroup: (group: Omit<GuestGroup, 'id'>, guestIds: string[]) => {
+        const newGroup: GuestGroup = { ...group, id: uuidv4() };
+        set(withHistory(`Создание группы «${group.name}»`, (state) => ({
+          groups: [...state.groups, newGroup],
+          guests: state.guests.map((g) => guestIds.includes(g.id) ? { ...g, groupId: newGroup.id } : g),
+        })));
+      },
+
+      updateGroup: (groupId: string, changes: Partial<Omit<GuestGroup, 'id'>>, guestIds?: string[]) => {
+        set(withHistory('Изменение группы', (state) => ({
+          groups: state.groups.map((g) => g.id === groupId ? { ...g, ...changes } : g),
+          guests: guestIds
+            ? state.guests.map((g) => {
+                if (guestIds.includes(g.id)) return { ...g, groupId };
+                return g.groupId === groupId ? { ...g, groupId: undefined } : g;
+              })
+            : state.guests,
+        }), `group:${groupId}`));
+      },
+
+      removeGroup: (groupId: string) => {
+        // Members stay in the guest list, only the grouping is removed
+        set(withHistory('Удаление группы', (state) => ({
+          groups: state.groups.filter((g) => g.id !== groupId),
+          guests: state.guests.map((g) => g.groupId === groupId ? { ...g, groupId: undefined } : g),
+        })));
+      },
+
+      seatGroupAtTable: (groupId: string, tableId: string, seatId: string) => {
+        const { guests, tables } = get();
+        const table = tables.find((t) => t.id === tableId);
+        const { excludeDeclined } = get().settings;
+        const members = guests.filter((g) => g.groupId === groupId && !(excludeDeclined && g.rsvp === 'declined'));
+        if (!table) return { seated: 0, notSeated: members.length };
+
+        // Members already at this table keep their seats
+        const seatedHere = new Set(table.seats.filter((s) => s.guestId).map((s) => s.guestId!));
+        const toSeat = members.filter((m) => !seatedHere.has(m.id));
+        const freeSeats = pickAdjacentFreeSeats(table, seatId, toSeat.length);
+        const seatToGuest = new Map(freeSeats.map((seat, i) => [seat.id, toSeat[i].id]));
+
+        if (seatToGuest.size > 0) {
+          set(withHistory('Рассадка группы', (state) => placeAtTable(state, tableId, seatToGuest)));
+        }
+
+        return { seated: seatToGuest.size, notSeated: toSeat.length - seatToGuest.size };
+      },
+
+      addConstraint: (constraint: DistributiveOmit<SeatingConstraint, 'id'>) => {
+        set(withHistory('Добавление правила рассадки', (state) => ({
+          constraints: [...state.constraints, { ...constraint, id: uuidv4() } as SeatingConstraint],
+        })));
+      },
+
+      removeConstraint: (constraintId: string) => {
+        set(withHistory('Удаление правила рассадки', (state) => ({
+          constraints: state.constraints.filter((c) => c.id !== constraintId),
+        })));
+      },
+
+      autoSeat: (options: AutoSeatOptions) => {
+        const result = solveSeating(selectLayout(get()), options);
+        if (result.assignments.length === 0) return result;
+
+        const seatToGuest = new Map(result.assignments.map((a) => [a.seatId, a.guestId]));
+        const seatedIds = new Set(result.assignments.map((a) => a.guestId));
+
+        set(withHistory('Автоматическая рассадка', (state) => ({
+          tables: state.tables.map((table) => ({
+            ...table,
+            seats: table.seats.map((seat) =>
+              seatToGuest.has(seat.id) ? { ...seat, guestId: seatToGuest.get(seat.id)! } : seat
+            ),
+          })),
+          unassignedGuests: state.unassignedGuests.filter((id) => !seatedIds.has(id)),
+        })));
+
+        return result;
+      },
+
+      setNameOrder: (nameOrder: NameOrderSetting) => {
+        set(withHistory('Изменение настроек плана', (state) => ({
+          settings: { ...state.settings, nameOrder },
+        })));
+      },
+
+      setGridSettings: (changes: Partial<Pick<PlanSettings, 'gridSize' | 'snapToGrid'>>) => {
+        set(withHistory('Изменение настроек плана', (state) => ({
+          settings: { ...state.settings, ...changes },
+        })));
+      },
+
+      setMeasurementSettings: (changes: Partial<Pick<PlanSettings, 'lengthUnit' | 'minClearance'>>) => {
+        set(withHistory('Изменение настроек плана', (state) => ({
+          settings: { ...state.settings, ...changes },
+        }), `settings:${Object.keys(changes).join(',')}`));
+      },
+
+      setExcludeDeclined: (excludeDeclined: boolean) => {
+        set(withHistory(excludeDeclined ? 'Отказавшиеся гости сняты с мест' : 'Изменение настроек плана', (state) => ({
+          settings: { ...state.settings, excludeDeclined },
+          ...(excludeDeclined ? unseatGuests(state, getDeclinedIds(state.guests)) : {}),
+        })));
+      },
+
+      unseatDeclinedGuests: () => {
+        const { tables, guests } = get();
+        const declinedIds = getDeclinedIds(guests);
+        const count = tables.flatMap((t) => t.seats).filter((s) => s.guestId && declinedIds.has(s.guestId)).length;
+        if (count > 0) {
+          set(withHistory('Отказавшиеся гости сняты с мест', (state) => unseatGuests(state, declinedIds)));
+        }
+        return count;
+      },
+
+      createEvent: (details: EventDetails) => {
+        const eventId = uuidv4();
+        set((state) => activateEvent(state, eventId, createEmptyLayout(details), [...state.eventIds, eventId]));
+        return eventId;
+      },
+
+      switchEvent: (eventId: string) => {
+        set((state) => {
+          const layout = state.storedEvents[eventId];
+          return eventId === state.activeEventId || !layout ? state : activateEvent(state, eventId, layout);
         });
       },
 
-      clearLayout: () => {
+      duplicateEvent: (eventId: string) => {
+        const source = getEventLayout(get(), eventId);
+        if (!source) return eventId;
+
+        const copyId = uuidv4();
+        const copy = { ...source, event: { ...source.event, name: `${source.event.name} (копия)` } };
+        set((state) => activateEvent(state, copyId, copy, insertAfter(state.eventIds, eventId, copyId)));
+        return copyId;
+      },
+
+      updateEventDetails: (eventId: string, details: EventDetails) => {
+        if (eventId === get().activeEventId) {
+          set(withHistory('Изменение мероприятия', () => ({ event: details })));
+          return;
+        }
+        set((state) => {
+          const layout = state.storedEvents[eventId];
+          return layout ? { storedEvents: { ...state.storedEvents, [eventId]: { ...layout, event: details } } } : state;
+        });
+      },
+
+      // The last remaining event cannot be deleted; deleting the active one opens its neighbour
+      deleteEvent: (eventId: string) => {
         set((state) => {
+          if (state.eventIds.length <= 1 || !state.eventIds.includes(eventId)) return state;
+          const eventIds = state.eventIds.filter((id) => id !== eventId);
+
+          if (eventId !== state.activeEventId) {
+            return { eventIds, storedEvents: omitEvent(state.storedEvents, eventId) };
+          }
+
+          const index = state.eventIds.indexOf(eventId);
+          const nextId = eventIds[Math.min(index, eventIds.length - 1)];
+          return {
+            ...state.storedEvents[nextId],
+            activeEventId: nextId,
+            eventIds,
+            storedEvents: omitEvent(state.storedEvents, nextId),
+            past: [],
+            future: [],
+          };
+        });
+      },
+
+      importLayout: (layout: SeatingLayout, mode: ImportMode) => {
+        if (mode === 'new-event') {
+          const eventId = uuidv4();
+          set((state) => activateEvent(state, eventId, layout, [...state.eventIds, eventId]));
+          return;
+        }
+
+        if (mode === 'replace') {
+          set(withHistory('Импорт плана', () => ({
+            event: layout.event,
+            tables: layout.tables,
+            venueObjects: layout.venueObjects,
+            backgroundImage: layout.backgroundImage,
+            guests: layout.guests,
+            unassignedGuests: layout.unassignedGuests,
+            constraints: layout.constraints,
+            groups: layout.groups,
+            settings: layout.settings,
+          })));
+          return;
+        }
+
+        const imported = remapLayoutIds(layout);
+        set(withHistory('Импорт плана', (state) => ({
+          tables: [...state.tables, ...imported.tables],
+          venueObjects: [...state.venueObjects, ...imported.venueObjects],
+          // The current plan keeps its own background
+          backgroundImage: state.backgroundImage ?? imported.backgroundImage,
+          guests: [...state.guests, ...imported.guests],
+          unassignedGuests: [...state.unassignedGuests, ...imported.unassignedGuests],
+          constraints: [...state.constraints, ...imported.constraints],
+          groups: [...state.groups, ...imported.groups],
+        })));
+      },
+
+      clearLayout: () => {
+        set(withHistory('Очистка рассадки', (state) => {
           const allAssignedGuestIds = state.tables
             .flatMap((t) => t.seats)
             .filter((s) => s.guestId)
@@ -400,20 +1228,78 @@ export const useSeatingStore = create<SeatingStore>()(
           return {
             tables: [],
             unassignedGuests: [...state.unassignedGuests, ...allAssignedGuestIds],
+            constraints: pruneConstraints(state.constraints, state.guests, []),
           };
-        });
+        }));
       },
 
       resetAll: () => {
-        set({
+        set(withHistory('Сброс всех данных', () => ({
           tables: [],
+          venueObjects: [],
+          backgroundImage: null,
           guests: [],
           unassignedGuests: [],
+          constraints: [],
+          groups: [],
+          settings: DEFAULT_PLAN_SETTINGS,
+        })));
+      },
+
+      undo: () => {
+        set((state) => {
+          const entry = state.past[state.past.length - 1];
+          if (!entry) return state;
+
+          return {
+            ...entry.snapshot,
+            past: state.past.slice(0, -1),
+            future: [...state.future, { ...entry, snapshot: selectLayout(state) }],
+          };
+        });
+      },
+
+      redo: () => {
+        set((state) => {
+          const entry = state.future[state.future.length - 1];
+          if (!entry) return state;
+
+          return {
+            ...entry.snapshot,
+            past: [...state.past, { ...entry, snapshot: selectLayout(state) }],
+            future: state.future.slice(0, -1),
+          };
+        });
+      },
+
+      // Only the updates of one drag coalesce: dropping the key closes the step
+      endGesture: () => {
+        set((state) => {
+          const entry = state.past[state.past.length - 1];
+          if (!entry?.coalesceKey) return state;
+          return { past: [...state.past.slice(0, -1), { ...entry, coalesceKey: undefined }] };
         });
       },
     }),
     {
       name: 'seating-planner-storage',
+      version: LAYOUT_SCHEMA_VERSION,
+      storage: planStorage,
+      // Only plan data is persisted; actions are recreated on every load
+      partialize: (state): PersistedStore => ({
+        ...selectLayout(state),
+        activeEventId: state.activeEventId,
+        eventIds: state.eventIds,
+        storedEvents: state.storedEvents,
+      }),
+      // Parked events were saved with the same version as the active plan
+      migrate: (persistedState, version) => {
+        const state = migrateLayoutData(persistedState, version) as PersistedStore;
+        const storedEvents = Object.fromEntries(
+          Object.entries(state.storedEvents ?? {}).map(([id, layout]) => [id, migrateLayoutData(layout, version) as SeatingLayout])
+        );
+        return { ...state, storedEvents };
+      },
     }
   )
 );
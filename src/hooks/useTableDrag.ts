@@ -0,0 +1,47 @@
+import { useState } from 'react';
+import { useSeatingStore } from '@/hooks/useSeatingStore';
+
+interface DragOrigin {
+  x: number;
+  y: number;
+}
+
+// Shared table dragging. Pointer movement is measured in screen pixels and divided by the
+// canvas scale, so the table stays under the cursor at any zoom level.
+export function useTableDrag(
+  origin: DragOrigin,
+  scale: number,
+  onUpdatePosition?: (x: number, y: number) => void
+) {
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    if ((e.target as HTMLElement).closest('button')) return;
+    e.preventDefault();
+
+    const startX = e.clientX;
+    const startY = e.clientY;
+    const startOrigin = { ...origin };
+    setIsDragging(true);
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      onUpdatePosition?.(
+        startOrigin.x + (moveEvent.clientX - startX) / scale,
+        startOrigin.y + (moveEvent.clientY - startY) / scale
+      );
+    };
+
+    const handleMouseUp = () => {
+      setIsDragging(false);
+      useSeatingStore.getState().endGesture();
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  return { isDragging, handleMouseDown };
+}
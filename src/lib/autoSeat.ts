@@ -0,0 +1,271 @@
+import type { Guest, SeatingConstraint, SeatingLayout, Table } from '@/types';
+
+export interface AutoSeatOptions {
+  tableIds?: string[]; // Only seat at these tables (all tables when omitted)
+  balance: boolean; // Fill tables evenly instead of one after another
+}
+
+export interface SeatAssignment {
+  guestId: string;
+  tableId: string;
+  seatId: string;
+}
+
+export interface AutoSeatIssue {
+  constraintId?: string;
+  message: string;
+}
+
+export interface AutoSeatResult {
+  assignments: SeatAssignment[];
+  issues: AutoSeatIssue[];
+  unseatedGuestIds: string[];
+}
+
+interface TableSlot {
+  table: Table;
+  freeSeatIds: string[]; // In position order, so a unit gets adjacent seats
+  guestIds: Set<string>; // Already seated plus planned in this run
+  capacity: number;
+}
+
+// Guests that must be seated together (connected through "together" constraints or a group)
+interface SeatingUnit {
+  guestIds: string[];
+  pinnedTableId?: string;
+  preferredTableId?: string; // Table where a member of the group already sits
+  constraintIds: string[];
+  hasApartConflict?: boolean;
+}
+
+// Drop constraints that refer to removed guests or tables
+export const pruneConstraints = (constraints: SeatingConstraint[], guests: Guest[], tables: Table[]): SeatingConstraint[] => {
+  const guestIds = new Set(guests.map((g) => g.id));
+  const tableIds = new Set(tables.map((t) => t.id));
+
+  return constraints
+    .map((constraint) => constraint.type === 'together'
+      ? { ...constraint, guestIds: constraint.guestIds.filter((id) => guestIds.has(id)) }
+      : constraint)
+    .filter((constraint) => constraint.type === 'pin'
+      ? guestIds.has(constraint.guestId) && tableIds.has(constraint.tableId)
+      : constraint.guestIds.length >= 2 && constraint.guestIds.every((id) => guestIds.has(id)));
+};
+
+const guestName = (guests: Map<string, Guest>, id: string) => guests.get(id)?.fullName || id;
+
+const buildUnits = (
+  layout: SeatingLayout,
+  candidateIds: Set<string>,
+  seatedAt: Map<string, string>,
+  guests: Map<string, Guest>,
+  issues: AutoSeatIssue[]
+): SeatingUnit[] => {
+  // Union-find over guests linked by "together" constraints
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const p = parent.get(id) ?? id;
+    if (p === id) return id;
+    const root = find(p);
+    parent.set(id, root);
+    return root;
+  };
+  const union = (a: string, b: string) => parent.set(find(a), find(b));
+
+  const togetherByRoot = new Map<string, string[]>();
+  layout.constraints.forEach((constraint) => {
+    if (constraint.type !== 'together') return;
+    const [first, ...rest] = constraint.guestIds;
+    rest.forEach((id) => union(first, id));
+  });
+
+  // Members of a household/party are an implicit "together" constraint
+  const firstMemberByGroup = new Map<string, string>();
+  layout.guests.forEach((guest) => {
+    if (!guest.groupId) return;
+    const first = firstMemberByGroup.get(guest.groupId);
+    if (first) union(first, guest.id);
+    else firstMemberByGroup.set(guest.groupId, guest.id);
+  });
+  // Companions sit at the table of their primary guest
+  layout.guests.forEach((guest) => {
+    if (guest.companionOf && guests.has(guest.companionOf)) union(guest.companionOf, guest.id);
+  });
+  layout.constraints.forEach((constraint) => {
+    if (constraint.type !== 'together') return;
+    const root = find(constraint.guestIds[0]);
+    togetherByRoot.set(root, [...(togetherByRoot.get(root) || []), constraint.id]);
+  });
+
+  const unitsByRoot = new Map<string, SeatingUnit>();
+  candidateIds.forEach((guestId) => {
+    const root = find(guestId);
+    const unit = unitsByRoot.get(root) || { guestIds: [], constraintIds: togetherByRoot.get(root) || [] };
+    unit.guestIds.push(guestId);
+    unitsByRoot.set(root, unit);
+  });
+
+  // Anchor units to the table of already seated members
+  seatedAt.forEach((tableId, guestId) => {
+    const unit = unitsByRoot.get(find(guestId));
+    if (unit && !unit.preferredTableId) unit.preferredTableId = tableId;
+  });
+
+  layout.constraints.forEach((constraint) => {
+    if (constraint.type !== 'pin' || !candidateIds.has(constraint.guestId)) return;
+    const unit = unitsByRoot.get(find(constraint.guestId));
+    if (!unit) return;
+
+    if (unit.pinnedTableId && unit.pinnedTableId !== constraint.tableId) {
+      issues.push({
+        constraintId: constraint.id,
+        message: `${guestName(guests, constraint.guestId)}: закрепление за столом противоречит другому закреплению в группе`,
+      });
+      return;
+    }
+    unit.pinnedTableId = constraint.tableId;
+  });
+
+  return [...unitsByRoot.values()];
+};
+
+const conflictsWith = (apartPairs: [string, string][], guestIds: string[], slot: TableSlot) =>
+  apartPairs.some(([a, b]) =>
+    (guestIds.includes(a) && slot.guestIds.has(b)) || (guestIds.includes(b) && slot.guestIds.has(a))
+  );
+
+const occupancy = (slot: TableSlot, extra = 0) =>
+  slot.capacity === 0 ? 1 : (slot.capacity - slot.freeSeatIds.length + extra) / slot.capacity;
+
+// Greedy solver: larger and pinned units first, each unit goes to one table that has enough
+// free seats and no "apart" conflict. Units that do not fit anywhere are split if possible.
+export const solveSeating = (layout: SeatingLayout, options: AutoSeatOptions): AutoSeatResult => {
+  const guests = new Map(layout.guests.map((g) => [g.id, g]));
+  const issues: AutoSeatIssue[] = [];
+  const assignments: SeatAssignment[] = [];
+  const unseatedGuestIds: string[] = [];
+
+  const targetIds = options.tableIds ? new Set(options.tableIds) : null;
+  const slots: TableSlot[] = layout.tables
+    .filter((table) => !targetIds || targetIds.has(table.id))
+    .map((table) => {
+      const seats = [...table.seats].sort((a, b) => a.position - b.position);
+      return {
+        table,
+        freeSeatIds: seats.filter((s) => !s.guestId).map((s) => s.id),
+        guestIds: new Set(seats.filter((s) => s.guestId).map((s) => s.guestId!)),
+        capacity: seats.length,
+      };
+    });
+
+  const seatedAt = new Map<string, string>();
+  layout.tables.forEach((table) => table.seats.forEach((seat) => {
+    if (seat.guestId) seatedAt.set(seat.guestId, table.id);
+  }));
+
+  const candidateIds = new Set(layout.unassignedGuests.filter((id) =>
+    guests.has(id) && !(layout.settings.excludeDeclined && guests.get(id)!.rsvp === 'declined')
+  ));
+  const apartConstraints = layout.constraints.filter(
+    (c): c is Extract<SeatingConstraint, { type: 'apart' }> => c.type === 'apart'
+  );
+  const apartPairs = apartConstraints.map((c) => c.guestIds);
+
+  const units = buildUnits(layout, candidateIds, seatedAt, guests, issues);
+
+  // A unit that must sit together but contains an "apart" pair can never be satisfied as a whole
+  units.forEach((unit) => {
+    apartConstraints.forEach((constraint) => {
+      const [a, b] = constraint.guestIds;
+      if (unit.guestIds.includes(a) && unit.guestIds.includes(b)) {
+        unit.hasApartConflict = true;
+        issues.push({
+          constraintId: constraint.id,
+          message: `${guestName(guests, a)} и ${guestName(guests, b)} должны сидеть отдельно, но входят в одну группу`,
+        });
+      }
+    });
+  });
+
+  units.sort((a, b) => Number(!!b.pinnedTableId) - Number(!!a.pinnedTableId) || b.guestIds.length - a.guestIds.length);
+
+  const chooseSlot = (guestIds: string[], allowed: TableSlot[]): TableSlot | undefined => {
+    const fitting = allowed.filter(
+      (slot) => slot.freeSeatIds.length >= guestIds.length && !conflictsWith(apartPairs, guestIds, slot)
+    );
+    if (fitting.length === 0) return undefined;
+    if (!options.balance) return fitting[0];
+    return fitting.reduce((best, slot) =>
+      occupancy(slot, guestIds.length) < occupancy(best, guestIds.length) ? slot : best
+    );
+  };
+
+  const place = (guestIds: string[], slot: TableSlot) => {
+    guestIds.forEach((guestId) => {
+      const seatId = slot.freeSeatIds.shift()!;
+      slot.guestIds.add(guestId);
+      assignments.push({ guestId, tableId: slot.table.id, seatId });
+    });
+  };
+
+  units.forEach((unit) => {
+    if (unit.pinnedTableId) {
+      const pinned = slots.filter((slot) => slot.table.id === unit.pinnedTableId);
+      const pinnedSlot = chooseSlot(unit.guestIds, pinned);
+      if (pinnedSlot) {
+        place(unit.guestIds, pinnedSlot);
+        return;
+      }
+      // Pins are hard constraints: never seat pinned guests at another table
+      const tableName = layout.tables.find((t) => t.id === unit.pinnedTableId)?.name ?? '?';
+      issues.push({
+        message: pinned.length === 0
+          ? `Стол «${tableName}» не выбран для рассадки — закреплённые за ним гости не рассажены`
+          : `За столом «${tableName}» не хватает подходящих мест для закреплённых гостей`,
+      });
+      unseatedGuestIds.push(...unit.guestIds);
+      return;
+    }
+
+    if (unit.preferredTableId) {
+      const preferred = chooseSlot(unit.guestIds, slots.filter((slot) => slot.table.id === unit.preferredTableId));
+      if (preferred) {
+        place(unit.guestIds, preferred);
+        return;
+      }
+      issues.push({
+        constraintId: unit.constraintIds[0],
+        message: `${unit.guestIds.map((id) => guestName(guests, id)).join(', ')}: нет мест рядом с уже рассаженными членами группы`,
+      });
+    }
+
+    const slot = unit.hasApartConflict ? undefined : chooseSlot(unit.guestIds, slots);
+    if (slot) {
+      place(unit.guestIds, slot);
+      return;
+    }
+
+    if (unit.guestIds.length > 1 && !unit.hasApartConflict) {
+      issues.push({
+        constraintId: unit.constraintIds[0],
+        message: `Группу (${unit.guestIds.map((id) => guestName(guests, id)).join(', ')}) не удалось посадить за один стол`,
+      });
+    }
+
+    // Seat members one by one as a fallback
+    unit.guestIds.forEach((guestId) => {
+      const single = chooseSlot([guestId], slots);
+      if (single) {
+        place([guestId], single);
+      } else {
+        unseatedGuestIds.push(guestId);
+      }
+    });
+  });
+
+  if (unseatedGuestIds.length > 0) {
+    issues.push({ message: `Не хватило подходящих мест для гостей: ${unseatedGuestIds.length}` });
+  }
+
+  return { assignments, issues, unseatedGuestIds };
+};
@@ -0,0 +1,120 @@
+import type { BackgroundImage } from '@/types';
+import type { Point } from '@/lib/tableGeometry';
+
+// Longest side of the stored image. The picture lives in localStorage, once per event that
+// uses it, and in every plan file, so a phone photo or a 600 dpi scan is scaled down and
+// re-encoded as JPEG until the data: URL fits the budget
+const MAX_IMAGE_SIDE = 2000;
+const MAX_IMAGE_LENGTH = 1_000_000; // Characters of the data: URL, about 750 KB of JPEG
+const JPEG_QUALITIES = [0.8, 0.65, 0.5];
+const SHRINK_STEP = 0.75;
+const MIN_IMAGE_SIDE = 500;
+
+export const BACKGROUND_IMAGE_ACCEPT = 'image/png,image/jpeg,image/webp,image/svg+xml,application/pdf,.pdf';
+
+export interface CalibrationLine {
+  start: Point;
+  end: Point;
+}
+
+export const getLineLength = (line: CalibrationLine) =>
+  Math.hypot(line.end.x - line.start.x, line.end.y - line.start.y);
+
+// Venue plans sent as PDF are usually a scan: a single JPEG inside the file. The largest JPEG
+// stream is taken as-is; vector drawings would need a PDF renderer and are rejected
+const extractPdfJpeg = (bytes: Uint8Array): Uint8Array | null => {
+  const source = new TextDecoder('latin1').decode(bytes);
+  let best: Uint8Array | null = null;
+
+  for (let index = source.indexOf('/DCTDecode'); index !== -1; index = source.indexOf('/DCTDecode', index + 1)) {
+    const streamStart = source.indexOf('stream', index);
+    if (streamStart === -1) break;
+    let dataStart = streamStart + 'stream'.length;
+    if (source[dataStart] === '\r') dataStart++;
+    if (source[dataStart] === '\n') dataStart++;
+    const dataEnd = source.indexOf('endstream', dataStart);
+    if (dataEnd === -1) break;
+
+    const jpeg = bytes.subarray(dataStart, dataEnd);
+    if (!best || jpeg.length > best.length) best = jpeg;
+  }
+  return best;
+};
+
+const loadImage = (blob: Blob): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Не удалось прочитать изображение'));
+    };
+    image.src = url;
+  });
+
+const isPdf = (file: File) => file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+// Reads a PNG, JPEG, SVG or scanned PDF into an embeddable data: URL and its pixel size
+export const readBackgroundImageFile = async (file: File): Promise<{ src: string; widthPx: number; heightPx: number }> => {
+  let blob: Blob = file;
+  if (isPdf(file)) {
+    const jpeg = extractPdfJpeg(new Uint8Array(await file.arrayBuffer()));
+    if (!jpeg) throw new Error('В PDF нет растрового изображения. Сохраните план из PDF как PNG или JPEG');
+    blob = new Blob([jpeg.slice()], { type: 'image/jpeg' });
+  }
+
+  const image = await loadImage(blob);
+  if (!image.naturalWidth || !image.naturalHeight) throw new Error('Изображение не имеет размера');
+
+  const longestSide = Math.max(image.naturalWidth, image.naturalHeight);
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas недоступен');
+
+  // Lower quality first, then a smaller picture, until the image fits the budget
+  for (let side = Math.min(longestSide, MAX_IMAGE_SIDE); side >= Math.min(longestSide, MIN_IMAGE_SIDE); side *= SHRINK_STEP) {
+    const ratio = side / longestSide;
+    canvas.width = Math.round(image.naturalWidth * ratio);
+    canvas.height = Math.round(image.naturalHeight * ratio);
+    // JPEG has no transparency; plans drawn on a transparent PNG get the usual white paper
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    for (const quality of JPEG_QUALITIES) {
+      const src = canvas.toDataURL('image/jpeg', quality);
+      if (src.length <= MAX_IMAGE_LENGTH) return { src, widthPx: canvas.width, heightPx: canvas.height };
+    }
+  }
+  throw new Error('Изображение слишком детальное для сохранения в браузере. Уменьшите его или обрежьте поля');
+};
+
+// One image pixel per centimetre until calibrated, centred on `center`
+export const createBackgroundImage = (src: string, widthPx: number, heightPx: number, center: Point): BackgroundImage => ({
+  src,
+  x: Math.round(center.x - widthPx / 2),
+  y: Math.round(center.y - heightPx / 2),
+  width: widthPx,
+  height: heightPx,
+  opacity: 0.5,
+  visible: true,
+  calibrated: false,
+});
+
+// Scales the image so `line` measures `length` canvas units on the floor. The line's first point
+// stays where it is, so the part of the plan the user was looking at does not jump away
+export const calibrateBackgroundImage = (image: BackgroundImage, line: CalibrationLine, length: number): BackgroundImage => {
+  const factor = length / getLineLength(line);
+  return {
+    ...image,
+    x: line.start.x + (image.x - line.start.x) * factor,
+    y: line.start.y + (image.y - line.start.y) * factor,
+    width: image.width * factor,
+    height: image.height * factor,
+    calibrated: true,
+  };
+};
@@ -0,0 +1,22 @@
+import type { CompanionKind, Guest } from '@/types';
+
+export const companionKindLabels: Record<CompanionKind, string> = {
+  'plus-one': 'Спутник',
+  child: 'Ребёнок',
+};
+
+export const getCompanions = (guests: Guest[], primaryId: string) =>
+  guests.filter((g) => g.companionOf === primaryId);
+
+// Placeholder guest for a +1 or a child whose name is not known yet
+export const createCompanionGuest = (primary: Guest, kind: CompanionKind): Omit<Guest, 'id'> => ({
+  firstName: companionKindLabels[kind],
+  lastName: primary.lastName,
+  fullName: kind === 'child' ? `${primary.fullName}: ребёнок` : `${primary.fullName} +1`,
+  companionOf: primary.id,
+  companionKind: kind,
+  placeholder: true,
+  groupId: primary.groupId,
+  rsvp: primary.rsvp,
+  meal: kind === 'child' ? 'child' : undefined,
+});
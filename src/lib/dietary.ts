@@ -0,0 +1,124 @@
+import type { LucideIcon } from 'lucide-react';
+import { Baby, Leaf, MilkOff, Moon, NutOff, Sprout, Utensils, WheatOff } from 'lucide-react';
+import type { DietaryRestriction, Guest, MealType, SeatingLayout } from '@/types';
+
+export const MEAL_TYPES: MealType[] = ['standard', 'vegetarian', 'vegan', 'halal', 'child'];
+export const DIETARY_RESTRICTIONS: DietaryRestriction[] = ['gluten-free', 'lactose-free', 'nut-free'];
+
+export const mealLabels: Record<MealType, string> = {
+  standard: 'Стандартное',
+  vegetarian: 'Вегетарианское',
+  vegan: 'Веганское',
+  halal: 'Халяль',
+  child: 'Детское',
+};
+
+export const dietaryLabels: Record<DietaryRestriction, string> = {
+  'gluten-free': 'Без глютена',
+  'lactose-free': 'Без лактозы',
+  'nut-free': 'Без орехов',
+};
+
+export const mealIcons: Record<MealType, LucideIcon> = {
+  standard: Utensils,
+  vegetarian: Leaf,
+  vegan: Sprout,
+  halal: Moon,
+  child: Baby,
+};
+
+export const dietaryIcons: Record<DietaryRestriction, LucideIcon> = {
+  'gluten-free': WheatOff,
+  'lactose-free': MilkOff,
+  'nut-free': NutOff,
+};
+
+export const getMeal = (guest: Guest): MealType => guest.meal ?? 'standard';
+
+// Whether the caterer needs to know anything beyond the standard menu
+export const hasSpecialDiet = (guest: Guest) =>
+  getMeal(guest) !== 'standard' || !!guest.dietary?.length || !!guest.dietaryNotes?.trim();
+
+// Everything the kitchen needs to know about one guest, e.g. "Веганское, без глютена; аллергия на киви"
+export const describeDiet = (guest: Guest): string => {
+  const meal = getMeal(guest);
+  const items = [
+    ...(meal !== 'standard' ? [mealLabels[meal]] : []),
+    ...(guest.dietary ?? []).map((d) => dietaryLabels[d].toLocaleLowerCase('ru')),
+  ];
+  if (items.length > 0) items[0] = items[0].charAt(0).toLocaleUpperCase('ru') + items[0].slice(1);
+  return [items.join(', '), guest.dietaryNotes?.trim()].filter(Boolean).join('; ');
+};
+
+export interface CateringRow {
+  tableId: string | null; // null for guests without a seat
+  tableName: string;
+  guestCount: number;
+  meals: Record<MealType, number>;
+  dietary: Record<DietaryRestriction, number>;
+  notes: { guestName: string; note: string }[];
+}
+
+export interface CateringReport {
+  rows: CateringRow[];
+  total: CateringRow;
+}
+
+const emptyRow = (tableId: string | null, tableName: string): CateringRow => ({
+  tableId,
+  tableName,
+  guestCount: 0,
+  meals: Object.fromEntries(MEAL_TYPES.map((m) => [m, 0])) as Record<MealType, number>,
+  dietary: Object.fromEntries(DIETARY_RESTRICTIONS.map((d) => [d, 0])) as Record<DietaryRestriction, number>,
+  notes: [],
+});
+
+const addGuest = (row: CateringRow, guest: Guest) => {
+  row.guestCount++;
+  row.meals[getMeal(guest)]++;
+  guest.dietary?.forEach((d) => row.dietary[d]++);
+  if (guest.dietaryNotes?.trim()) {
+    row.notes.push({ guestName: guest.fullName, note: guest.dietaryNotes.trim() });
+  }
+};
+
+// Meals per table in canvas order; unseated guests get their own row so totals match the guest list.
+// Guests who declined the invitation are not catered for
+export const buildCateringReport = (layout: Pick<SeatingLayout, 'tables' | 'guests'>): CateringReport => {
+  const guests = new Map(layout.guests.filter((g) => g.rsvp !== 'declined').map((g) => [g.id, g]));
+  const seatedIds = new Set<string>();
+  const total = emptyRow(null, 'Итого');
+
+  const rows = layout.tables.map((table) => {
+    const row = emptyRow(table.id, table.name);
+    table.seats.forEach((seat) => {
+      const guest = seat.guestId ? guests.get(seat.guestId) : undefined;
+      if (!guest) return;
+      seatedIds.add(guest.id);
+      addGuest(row, guest);
+      addGuest(total, guest);
+    });
+    return row;
+  });
+
+  const unseated = emptyRow(null, 'Без места');
+  [...guests.values()].filter((g) => !seatedIds.has(g.id)).forEach((guest) => {
+    addGuest(unseated, guest);
+    addGuest(total, guest);
+  });
+  if (unseated.guestCount > 0) rows.push(unseated);
+
+  return { rows, total };
+};
+
+export const cateringReportToRows = (report: CateringReport): string[][] => {
+  const header = ['Стол', 'Гостей', ...MEAL_TYPES.map((m) => mealLabels[m]), ...DIETARY_RESTRICTIONS.map((d) => dietaryLabels[d]), 'Примечания'];
+  const toRow = (row: CateringRow) => [
+    row.tableName,
+    String(row.guestCount),
+    ...MEAL_TYPES.map((m) => String(row.meals[m])),
+    ...DIETARY_RESTRICTIONS.map((d) => String(row.dietary[d])),
+    row.notes.map((n) => `${n.guestName}: ${n.note}`).join('; '),
+  ];
+  return [header, ...report.rows.map(toRow), toRow(report.total)];
+};
@@ -0,0 +1,20 @@
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const escapeCsvCell = (value: string, delimiter: string) =>
+  /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Semicolon-separated with a BOM, which is what Excel with a Russian locale opens correctly
+export const toCsv = (rows: string[][], delimiter = ';') =>
+  '\uFEFF' + rows.map((row) => row.map((cell) => escapeCsvCell(cell, delimiter)).join(delimiter)).join('\r\n');
+
+export const downloadCsv = (rows: string[][], filename: string) =>
+  downloadBlob(new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' }), filename);
+
+export const dateStamp = (date = new Date()) => date.toISOString().split('T')[0];
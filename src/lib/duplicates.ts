@@ -0,0 +1,124 @@
+import type { Guest } from '@/types';
+import { formatFullName, type ParsedGuestName } from '@/lib/guestNames';
+
+export type DuplicateReason = 'exact' | 'transposed' | 'typo';
+
+export interface DuplicateMatch {
+  guest: Guest;
+  reason: DuplicateReason;
+}
+
+// A name in an import batch that repeats an existing guest or an earlier name of the same batch
+export interface BatchDuplicate {
+  name: string;
+  reason: DuplicateReason;
+  inBatch: boolean;
+}
+
+export interface DuplicatePair {
+  a: Guest;
+  b: Guest;
+  reason: DuplicateReason;
+}
+
+export const duplicateReasonLabels: Record<DuplicateReason, string> = {
+  exact: 'совпадает имя',
+  transposed: 'имя и фамилия переставлены',
+  typo: 'похожее написание',
+};
+
+// Lowercase, ё -> е, no punctuation or repeated spaces: "Пётр-Иван " and "петр иван" are the same
+export const normalizeName = (value: string | undefined): string =>
+  (value ?? '')
+    .toLowerCase()
+    .replace(/ё/g, 'е')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const editDistance = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Allowed typos grow with the name length: one for short names, two for long ones
+const typoLimit = (length: number) => (length >= 12 ? 2 : length >= 5 ? 1 : 0);
+
+// Patronymics only count when both guests have one
+const middleNamesConflict = (a: string, b: string) => !!a && !!b && editDistance(a, b) > typoLimit(Math.min(a.length, b.length));
+
+export const compareGuestNames = (a: ParsedGuestName, b: ParsedGuestName): DuplicateReason | null => {
+  const first = [normalizeName(a.firstName), normalizeName(b.firstName)];
+  const last = [normalizeName(a.lastName), normalizeName(b.lastName)];
+  if (!first[0] && !last[0]) return null;
+  if (middleNamesConflict(normalizeName(a.middleName), normalizeName(b.middleName))) return null;
+
+  if (first[0] === first[1] && last[0] === last[1]) return 'exact';
+  if (first[0] === last[1] && last[0] === first[1]) return 'transposed';
+
+  const full = [`${last[0]} ${first[0]}`, `${last[1]} ${first[1]}`];
+  const limit = typoLimit(Math.min(full[0].length, full[1].length));
+  if (limit > 0 && Math.abs(full[0].length - full[1].length) <= limit && editDistance(full[0], full[1]) <= limit) {
+    return 'typo';
+  }
+  return null;
+};
+
+// The closest existing guest for a name that is about to be added
+export const findDuplicateOf = (name: ParsedGuestName, guests: Guest[]): DuplicateMatch | undefined => {
+  let best: DuplicateMatch | undefined;
+  const rank: Record<DuplicateReason, number> = { exact: 0, transposed: 1, typo: 2 };
+  for (const guest of guests) {
+    const reason = compareGuestNames(name, guest);
+    if (reason && (!best || rank[reason] < rank[best.reason])) {
+      best = { guest, reason };
+      if (reason === 'exact') break;
+    }
+  }
+  return best;
+};
+
+// Only exact and transposed repeats are skipped automatically; typos may be different people
+export const isCertainDuplicate = (reason: DuplicateReason) => reason !== 'typo';
+
+export const findBatchDuplicates = (names: ParsedGuestName[], guests: Guest[]): (BatchDuplicate | undefined)[] =>
+  names.map((name, index) => {
+    const existing = findDuplicateOf(name, guests);
+    if (existing) return { name: existing.guest.fullName, reason: existing.reason, inBatch: false };
+
+    for (const earlier of names.slice(0, index)) {
+      const reason = compareGuestNames(name, earlier);
+      if (reason) return { name: formatFullName(earlier), reason, inBatch: true };
+    }
+    return undefined;
+  });
+
+// All suspected duplicate pairs in the guest list. Placeholder companions share a name pattern and are skipped
+export const findDuplicatePairs = (guests: Guest[]): DuplicatePair[] => {
+  const named = guests.filter((g) => !g.placeholder);
+  const pairs: DuplicatePair[] = [];
+  for (let i = 0; i < named.length; i++) {
+    for (let j = i + 1; j < named.length; j++) {
+      const reason = compareGuestNames(named[i], named[j]);
+      if (reason) pairs.push({ a: named[i], b: named[j], reason });
+    }
+  }
+  return pairs;
+};
+
+export const duplicatePairKey = (pair: Pick<DuplicatePair, 'a' | 'b'>) => [pair.a.id, pair.b.id].sort().join(':');
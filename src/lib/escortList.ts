@@ -0,0 +1,61 @@
+import type { Guest, Table } from '@/types';
+import { getShortName } from '@/lib/guestNames';
+
+export interface EscortEntry {
+  guestId: string;
+  name: string;
+  tableName?: string; // Missing for unassigned guests
+  seatNumber?: number; // 1-based
+}
+
+export interface EscortGroup {
+  letter: string;
+  entries: EscortEntry[];
+}
+
+export interface EscortListOptions {
+  includeUnassigned: boolean;
+  fullNames: boolean; // "Иванов Иван Иванович" instead of "Иванов И.И."
+}
+
+// Surname first so the list reads like a phone book; single-name guests sort by that name
+const sortKey = (guest: Guest) => `${guest.lastName || guest.firstName} ${guest.firstName}`.trim().toLocaleLowerCase('ru');
+
+const firstLetter = (guest: Guest) => {
+  const letter = (guest.lastName || guest.firstName).trim().charAt(0).toLocaleUpperCase('ru');
+  return letter === 'Ё' ? 'Е' : letter || '#';
+};
+
+// Guests in alphabetical order with their table and seat, grouped by the first letter of the surname
+export const buildEscortList = (tables: Table[], guests: Guest[], options: EscortListOptions): EscortGroup[] => {
+  const seatByGuest = new Map<string, { tableName: string; seatNumber: number }>();
+  tables.forEach((table) => table.seats.forEach((seat) => {
+    if (seat.guestId) seatByGuest.set(seat.guestId, { tableName: table.name, seatNumber: seat.position + 1 });
+  }));
+
+  // Unassigned guests who declined are not expected at the door
+  const listed = guests
+    .filter((g) => seatByGuest.has(g.id) || (options.includeUnassigned && g.rsvp !== 'declined'))
+    .sort((a, b) => sortKey(a).localeCompare(sortKey(b), 'ru'));
+
+  const groups: EscortGroup[] = [];
+  listed.forEach((guest) => {
+    const letter = firstLetter(guest);
+    if (groups[groups.length - 1]?.letter !== letter) groups.push({ letter, entries: [] });
+    groups[groups.length - 1].entries.push({
+      guestId: guest.id,
+      name: options.fullNames ? guest.fullName : getShortName(guest),
+      ...seatByGuest.get(guest.id),
+    });
+  });
+  return groups;
+};
+
+export const escortListToRows = (groups: EscortGroup[]): string[][] => [
+  ['Гость', 'Стол', 'Место'],
+  ...groups.flatMap((group) => group.entries.map((entry) => [
+    entry.name,
+    entry.tableName ?? 'Без места',
+    entry.seatNumber ? String(entry.seatNumber) : '',
+  ])),
+];
@@ -0,0 +1,14 @@
+import type { EventDetails } from '@/types';
+
+// "2026-06-12" -> "12 июня 2026 г."
+export const formatEventDate = (date?: string): string | undefined => {
+  if (!date) return undefined;
+  const parsed = new Date(`${date}T00:00:00`);
+  return Number.isNaN(parsed.getTime())
+    ? date
+    : parsed.toLocaleDateString('ru-RU', { day: 'numeric', month: 'long', year: 'numeric' });
+};
+
+// Second line of the event picker: date and venue when known
+export const describeEvent = (event: EventDetails): string =>
+  [formatEventDate(event.date), event.venue].filter(Boolean).join(' · ');
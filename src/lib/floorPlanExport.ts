@@ -0,0 +1,364 @@
+import type { Guest, GuestGroup, Table, VenueObject } from '@/types';
+import { escapeHtml } from '@/lib/print';
+import { getCategoryLegend, type CategoryLegendEntry } from '@/lib/guestTags';
+import { getInitials } from '@/lib/guestNames';
+import type { SheetOrientation } from '@/lib/placeCards';
+import type { SvgPage } from '@/lib/svgImage';
+import {
+  AMPHITHEATER_LAYOUT,
+  CANVAS_UNITS_PER_METER,
+  TABLE_SEAT_OFFSET,
+  TABLE_SEAT_SIZE,
+  THEATER_LAYOUT,
+  getAmphitheaterRows,
+  getSeatPositions,
+  getSeatSize,
+  getTableFootprint,
+  rotateAround,
+  type Bounds,
+  type Point,
+} from '@/lib/tableGeometry';
+import { VENUE_OBJECT_STYLES, getPlanContentBounds, getVenueObjectFontSize } from '@/lib/venueObjects';
+
+export type PlanNameMode = 'initials' | 'full';
+export type PaperSize = 'A4' | 'A3';
+
+export const planNameModeLabels: Record<PlanNameMode, string> = {
+  initials: 'Инициалы',
+  full: 'Полные имена',
+};
+
+export const PAPER_SIZES: Record<PaperSize, { width: number; height: number }> = {
+  A4: { width: 210, height: 297 },
+  A3: { width: 297, height: 420 },
+};
+
+// Standard drawing scales, 1:N
+export const PLAN_SCALES = [20, 25, 50, 75, 100, 150, 200, 250, 500];
+
+export interface FloorPlanExportOptions {
+  title: string;
+  date: string;
+  nameMode: PlanNameMode;
+  showLegend: boolean;
+  paper: PaperSize;
+  orientation: SheetOrientation;
+  scale: number | 'fit'; // 1:N, or the largest standard scale that puts the plan on one sheet
+}
+
+export interface FloorPlanExport {
+  pages: SvgPage[]; // Printed sheets, the plan tiled across them when it does not fit one
+  poster: SvgPage; // The whole plan on a single drawing, for SVG and PNG
+  scale: number;
+  columns: number;
+  rows: number;
+}
+
+const MARGIN = 10;
+const HEADER_HEIGHT = 16;
+const PLAN_PADDING = 40; // Canvas units of free space around the outermost tables
+const FONT = "'Helvetica Neue', Arial, sans-serif";
+
+const INK = '#111';
+const MUTED = '#64748b';
+const LINE = '#94a3b8';
+const OCCUPIED = '#334155';
+
+const fmt = (value: number) => String(Math.round(value * 100) / 100);
+
+const text = (x: number, y: number, size: number, content: string, attrs = '') =>
+  `<text x="${fmt(x)}" y="${fmt(y)}" font-size="${fmt(size)}" ${attrs}>${escapeHtml(content)}</text>`;
+
+// Millimetres on paper per canvas unit at 1:N
+const mmPerUnit = (scale: number) => 1000 / CANVAS_UNITS_PER_METER / scale;
+
+// Table body in container coordinates, drawn before rotation
+const renderTableShape = (table: Table, width: number, height: number) => {
+  const stroke = `fill="#fff" stroke="${LINE}" stroke-width="2"`;
+  const inset = TABLE_SEAT_SIZE + TABLE_SEAT_OFFSET;
+  switch (table.type) {
+    case 'round':
+      return `<circle cx="${fmt(width / 2)}" cy="${fmt(height / 2)}" r="${fmt(table.width / 2)}" ${stroke}/>`;
+    case 'square':
+      return `<rect x="${inset}" y="${inset}" width="${table.width}" height="${table.width}" rx="6" ${stroke}/>`;
+    case 'rectangle':
+      return `<rect x="${inset}" y="${inset}" width="${table.width}" height="${table.height}" rx="6" ${stroke}/>`;
+    case 'theater':
+      return [
+        `<rect width="${fmt(width)}" height="${fmt(height)}" rx="6" ${stroke}/>`,
+        `<line x1="0" y1="${THEATER_LAYOUT.headerHeight}" x2="${fmt(width)}" y2="${THEATER_LAYOUT.headerHeight}" stroke="${LINE}" stroke-width="1"/>`,
+      ].join('');
+    case 'amphitheater': {
+      const { seatSize, rowSpacing, baseRadius, arcRadiusStep, headerHeight, padding } = AMPHITHEATER_LAYOUT;
+      const centerX = width / 2;
+      const centerY = headerHeight + padding + baseRadius;
+      const arcs = getAmphitheaterRows(table).map((_, i) => {
+        const radius = baseRadius + i * arcRadiusStep;
+        const yOffset = i * (seatSize + rowSpacing * 2);
+        const start = { x: centerX + radius * Math.cos(-Math.PI * 5 / 6), y: centerY + radius * Math.sin(-Math.PI * 5 / 6) * 0.4 + yOffset };
+        const end = { x: centerX + radius * Math.cos(-Math.PI / 6), y: centerY + radius * Math.sin(-Math.PI / 6) * 0.4 + yOffset };
+        return `<path d="M ${fmt(start.x)} ${fmt(start.y)} Q ${fmt(centerX)} ${fmt(centerY + radius * 0.5 + yOffset)} ${fmt(end.x)} ${fmt(end.y)}" fill="none" stroke="${LINE}" stroke-opacity="0.4" stroke-width="2" stroke-dasharray="4 4"/>`;
+      });
+      return [
+        `<rect width="${fmt(width)}" height="${fmt(height)}" rx="6" ${stroke}/>`,
+        `<line x1="0" y1="${headerHeight}" x2="${fmt(width)}" y2="${headerHeight}" stroke="${LINE}" stroke-width="1"/>`,
+        ...arcs,
+        `<rect x="${fmt(centerX - 40)}" y="${fmt(height - padding - 18)}" width="80" height="18" rx="9" fill="#e2e8f0"/>`,
+        text(centerX, height - padding - 9, 11, 'Сцена', `text-anchor="middle" dominant-baseline="central" fill="${OCCUPIED}"`),
+      ].join('');
+    }
+    default:
+      return `<rect width="${fmt(width)}" height="${fmt(height)}" ${stroke}/>`;
+  }
+};
+
+// Where the name and the occupancy are written, in container coordinates
+const getLabelAnchor = (table: Table, width: number, height: number): Point => {
+  if (table.type === 'theater') return { x: width / 2, y: THEATER_LAYOUT.headerHeight / 2 };
+  if (table.type === 'amphitheater') return { x: width / 2, y: AMPHITHEATER_LAYOUT.headerHeight / 2 };
+  return { x: width / 2, y: height / 2 };
+};
+
+const renderTable = (
+  table: Table,
+  guestById: Map<string, Guest>,
+  groupById: Map<string, GuestGroup>,
+  nameMode: PlanNameMode
+) => {
+  const { width, height } = getTableFootprint(table);
+  const local = { x: width / 2, y: height / 2 };
+  const center = { x: table.x + width / 2, y: table.y + height / 2 };
+  // Text is positioned in canvas coordinates so it stays upright on rotated tables
+  const toCanvas = (point: Point) => rotateAround({ x: table.x + point.x, y: table.y + point.y }, center, table.rotation);
+
+  const seatSize = getSeatSize(table);
+  const seatPositions = getSeatPositions(table);
+  const seats = seatPositions.map((position, index) => {
+    const seat = table.seats[index];
+    const guest = seat.guestId ? guestById.get(seat.guestId) : undefined;
+    const c = toCanvas({ x: position.x + seatSize / 2, y: position.y + seatSize / 2 });
+    const r = seatSize / 2;
+    if (!guest) {
+      return `<circle cx="${fmt(c.x)}" cy="${fmt(c.y)}" r="${fmt(r - 1)}" fill="#f8fafc" stroke="#cbd5e1" stroke-width="1.5" stroke-dasharray="3 2"/>`;
+    }
+
+    const group = guest.groupId ? groupById.get(guest.groupId) : undefined;
+    const parts = [
+      group ? `<circle cx="${fmt(c.x)}" cy="${fmt(c.y)}" r="${fmt(r + 1.5)}" fill="none" stroke="${group.color}" stroke-width="3"/>` : '',
+      `<circle cx="${fmt(c.x)}" cy="${fmt(c.y)}" r="${fmt(r)}" fill="${guest.categoryColor || OCCUPIED}"/>`,
+      text(c.x, c.y, seatSize * 0.36, getInitials(guest), `text-anchor="middle" dominant-baseline="central" font-weight="600" fill="#fff"`),
+    ];
+
+    if (nameMode === 'full') {
+      // The name goes outside the seat, away from the table centre
+      const dx = c.x - center.x;
+      const dy = c.y - center.y;
+      const length = Math.hypot(dx, dy) || 1;
+      const direction = { x: dx / length, y: dy / length };
+      const at = { x: c.x + direction.x * (r + 4), y: c.y + direction.y * (r + 4) };
+      const anchor = direction.x > 0.35 ? 'start' : direction.x < -0.35 ? 'end' : 'middle';
+      const shift = anchor === 'middle' ? Math.sign(direction.y) * 4 : 0;
+      parts.push(text(at.x, at.y + shift, 9, guest.fullName, `text-anchor="${anchor}" dominant-baseline="central" fill="${INK}"`));
+    }
+    return parts.join('');
+  });
+
+  const label = toCanvas(getLabelAnchor(table, width, height));
+  const assigned = table.seats.filter((s) => s.guestId).length;
+
+  return [
+    `<g transform="translate(${fmt(table.x)} ${fmt(table.y)}) rotate(${fmt(table.rotation)} ${fmt(local.x)} ${fmt(local.y)})">${renderTableShape(table, width, height)}</g>`,
+    ...seats,
+    text(label.x, label.y - 7, 14, table.name, `text-anchor="middle" dominant-baseline="central" font-weight="600" fill="${INK}"`),
+    text(label.x, label.y + 9, 11, `${assigned}/${seatPositions.length}`, `text-anchor="middle" dominant-baseline="central" fill="${MUTED}"`),
+  ].join('');
+};
+
+// Drawn under the tables, caption turning with the object as it does on the canvas
+const renderVenueObject = (object: VenueObject) => {
+  const style = VENUE_OBJECT_STYLES[object.type];
+  const shape = style.shape === 'ellipse'
+    ? `<ellipse cx="${fmt(object.width / 2)}" cy="${fmt(object.height / 2)}" rx="${fmt(object.width / 2)}" ry="${fmt(object.height / 2)}" fill="${style.fill}" stroke="${style.stroke}" stroke-width="2"/>`
+    : style.shape === 'rect'
+      ? `<rect width="${fmt(object.width)}" height="${fmt(object.height)}" rx="4" fill="${style.fill}" stroke="${style.stroke}" stroke-width="2"/>`
+      : '';
+  const caption = object.label
+    ? text(object.width / 2, object.height / 2, getVenueObjectFontSize(object), object.label, `text-anchor="middle" dominant-baseline="central" font-weight="600" fill="${style.color}"`)
+    : '';
+  return `<g transform="translate(${fmt(object.x)} ${fmt(object.y)}) rotate(${fmt(object.rotation)} ${fmt(object.width / 2)} ${fmt(object.height / 2)})">${shape}${caption}</g>`;
+};
+
+const getPlanBounds = (tables: Table[], venueObjects: VenueObject[]): Bounds | null => {
+  const bounds = getPlanContentBounds(tables, venueObjects);
+  return bounds && {
+    minX: bounds.minX - PLAN_PADDING,
+    minY: bounds.minY - PLAN_PADDING,
+    maxX: bounds.maxX + PLAN_PADDING,
+    maxY: bounds.maxY + PLAN_PADDING,
+  };
+};
+
+// Pick a bar length in whole metres that is comfortable to read at this scale
+const renderScaleBar = (x: number, y: number, scale: number) => {
+  const barMeters = [50, 20, 10, 5, 2, 1, 0.5].find((m) => (m * 1000) / scale <= 40) ?? 0.5;
+  const length = (barMeters * 1000) / scale;
+  const segment = length / 4;
+  const segments = [0, 1, 2, 3].map((i) =>
+    `<rect x="${fmt(x + i * segment)}" y="${fmt(y + 4)}" width="${fmt(segment)}" height="1.6" fill="${i % 2 === 0 ? INK : '#fff'}" stroke="${INK}" stroke-width="0.2"/>`
+  );
+  return [
+    text(x, y + 2, 2.8, `Масштаб 1:${scale}`, `fill="${INK}"`),
+    ...segments,
+    text(x, y + 8.6, 2.4, '0', `text-anchor="middle" fill="${MUTED}"`),
+    text(x + length, y + 8.6, 2.4, `${String(barMeters).replace('.', ',')} м`, `text-anchor="middle" fill="${MUTED}"`),
+  ].join('');
+};
+
+const SCALE_BAR_WIDTH = 50;
+const LEGEND_ROW_HEIGHT = 5;
+
+// Legend entries flow left to right after the scale bar and wrap onto new rows
+const layoutLegend = (entries: CategoryLegendEntry[], width: number) => {
+  const available = width - SCALE_BAR_WIDTH;
+  const items: { entry: CategoryLegendEntry; x: number; row: number }[] = [];
+  let x = 0;
+  let row = 0;
+  entries.forEach((entry) => {
+    const itemWidth = Math.min(available, 8 + (entry.label.length + String(entry.count).length + 1) * 1.6);
+    if (x > 0 && x + itemWidth > available) {
+      x = 0;
+      row++;
+    }
+    items.push({ entry, x, row });
+    x += itemWidth;
+  });
+  return { items, rows: items.length > 0 ? row + 1 : 0 };
+};
+
+const footerHeight = (legendRows: number) => Math.max(12, legendRows * LEGEND_ROW_HEIGHT + 4);
+
+const renderFooter = (x: number, y: number, scale: number, legend: ReturnType<typeof layoutLegend>) => [
+  renderScaleBar(x, y + 2, scale),
+  ...legend.items.map(({ entry, x: itemX, row }) => {
+    const left = x + SCALE_BAR_WIDTH + itemX;
+    const top = y + 4 + row * LEGEND_ROW_HEIGHT;
+    return [
+      `<circle cx="${fmt(left + 1.5)}" cy="${fmt(top)}" r="1.5" fill="${entry.color}"/>`,
+      text(left + 4.5, top, 2.8, `${entry.label} ${entry.count}`, `dominant-baseline="central" fill="${INK}"`),
+    ].join('');
+  }),
+].join('');
+
+interface PageFrame {
+  width: number;
+  height: number;
+  area: { x: number; y: number; width: number; height: number };
+  planOffset: Point; // Where the plan origin lands on this page, in mm
+  pageLabel?: string;
+  clipId: string;
+  framed: boolean; // Outline of the plan area, for glueing tiled sheets
+}
+
+const renderPage = (
+  frame: PageFrame,
+  plan: string,
+  bounds: Bounds,
+  scale: number,
+  options: FloorPlanExportOptions,
+  legend: ReturnType<typeof layoutLegend>
+): SvgPage => {
+  const { area } = frame;
+  const k = mmPerUnit(scale);
+  const body = [
+    `<rect width="${fmt(frame.width)}" height="${fmt(frame.height)}" fill="#fff"/>`,
+    `<g font-family="${FONT}">`,
+    text(MARGIN, MARGIN + 6, 6, options.title, `font-weight="600" fill="${INK}"`),
+    text(frame.width - MARGIN, MARGIN + 4, 3.2, options.date, `text-anchor="end" fill="${MUTED}"`),
+    frame.pageLabel ? text(frame.width - MARGIN, MARGIN + 9, 3, frame.pageLabel, `text-anchor="end" fill="${MUTED}"`) : '',
+    `<line x1="${MARGIN}" y1="${MARGIN + HEADER_HEIGHT - 4}" x2="${fmt(frame.width - MARGIN)}" y2="${MARGIN + HEADER_HEIGHT - 4}" stroke="${LINE}" stroke-width="0.3"/>`,
+    `<clipPath id="${frame.clipId}"><rect x="${fmt(area.x)}" y="${fmt(area.y)}" width="${fmt(area.width)}" height="${fmt(area.height)}"/></clipPath>`,
+    `<g clip-path="url(#${frame.clipId})"><g transform="translate(${fmt(frame.planOffset.x)} ${fmt(frame.planOffset.y)}) scale(${k}) translate(${fmt(-bounds.minX)} ${fmt(-bounds.minY)})">${plan}</g></g>`,
+    frame.framed ? `<rect x="${fmt(area.x)}" y="${fmt(area.y)}" width="${fmt(area.width)}" height="${fmt(area.height)}" fill="none" stroke="#cbd5e1" stroke-width="0.3" stroke-dasharray="2 1.5"/>` : '',
+    renderFooter(MARGIN, area.y + area.height + 2, scale, legend),
+    '</g>',
+  ].join('');
+  return { body, widthMm: frame.width, heightMm: frame.height };
+};
+
+// The whole floor plan at a fixed drawing scale, independent of the canvas zoom and scroll
+export const buildFloorPlanExport = (
+  tables: Table[],
+  venueObjects: VenueObject[],
+  guests: Guest[],
+  groups: GuestGroup[],
+  options: FloorPlanExportOptions
+): FloorPlanExport | null => {
+  const bounds = getPlanBounds(tables, venueObjects);
+  if (!bounds) return null;
+
+  const guestById = new Map(guests.map((g) => [g.id, g]));
+  const groupById = new Map(groups.map((g) => [g.id, g]));
+  const plan = [
+    ...venueObjects.map(renderVenueObject),
+    ...tables.map((table) => renderTable(table, guestById, groupById, options.nameMode)),
+  ].join('');
+
+  const seatedIds = new Set(tables.flatMap((t) => t.seats.map((s) => s.guestId).filter(Boolean)));
+  const legendEntries = options.showLegend ? getCategoryLegend(guests.filter((g) => seatedIds.has(g.id))) : [];
+
+  const paper = PAPER_SIZES[options.paper];
+  const sheet = options.orientation === 'portrait' ? paper : { width: paper.height, height: paper.width };
+  const sheetLegend = layoutLegend(legendEntries, sheet.width - MARGIN * 2);
+  const area = {
+    x: MARGIN,
+    y: MARGIN + HEADER_HEIGHT,
+    width: sheet.width - MARGIN * 2,
+    height: sheet.height - MARGIN * 2 - HEADER_HEIGHT - footerHeight(sheetLegend.rows),
+  };
+
+  const planWidth = bounds.maxX - bounds.minX;
+  const planHeight = bounds.maxY - bounds.minY;
+  const fits = (scale: number) => planWidth * mmPerUnit(scale) <= area.width && planHeight * mmPerUnit(scale) <= area.height;
+  const scale = options.scale === 'fit'
+    ? PLAN_SCALES.find(fits) ?? Math.ceil(Math.max(planWidth * mmPerUnit(1) / area.width, planHeight * mmPerUnit(1) / area.height))
+    : options.scale;
+
+  const k = mmPerUnit(scale);
+  const columns = Math.max(1, Math.ceil((planWidth * k) / area.width - 1e-9));
+  const rows = Math.max(1, Math.ceil((planHeight * k) / area.height - 1e-9));
+  // The plan is centred on the combined area of all sheets
+  const offset = {
+    x: (columns * area.width - planWidth * k) / 2,
+    y: (rows * area.height - planHeight * k) / 2,
+  };
+
+  const pages: SvgPage[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const index = row * columns + column;
+      pages.push(renderPage({
+        width: sheet.width,
+        height: sheet.height,
+        area,
+        planOffset: { x: area.x + offset.x - column * area.width, y: area.y + offset.y - row * area.height },
+        pageLabel: columns * rows > 1 ? `Лист ${index + 1} из ${columns * rows} · ряд ${row + 1}, колонка ${column + 1}` : undefined,
+        clipId: `plan-area-${index + 1}`,
+        framed: columns * rows > 1,
+      }, plan, bounds, scale, options, sheetLegend));
+    }
+  }
+
+  const posterWidth = Math.max(planWidth * k + MARGIN * 2, 150);
+  const posterLegend = layoutLegend(legendEntries, posterWidth - MARGIN * 2);
+  const posterArea = { x: MARGIN, y: MARGIN + HEADER_HEIGHT, width: posterWidth - MARGIN * 2, height: planHeight * k };
+  const poster = renderPage({
+    width: posterWidth,
+    height: posterArea.y + posterArea.height + footerHeight(posterLegend.rows) + MARGIN,
+    area: posterArea,
+    planOffset: { x: MARGIN + (posterArea.width - planWidth * k) / 2, y: posterArea.y },
+    clipId: 'plan-area',
+    framed: false,
+  }, plan, bounds, scale, options, posterLegend);
+
+  return { pages, poster, scale, columns, rows };
+};
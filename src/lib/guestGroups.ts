@@ -0,0 +1,11 @@
+import type { GuestGroupKind } from '@/types';
+
+export const groupKindLabels: Record<GuestGroupKind, string> = {
+  family: 'Семья',
+  couple: 'Пара',
+  party: 'Компания',
+  other: 'Другое',
+};
+
+// Palette offered for new groups; the colour marks members' seats on the canvas
+export const GROUP_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#06b6d4', '#3b82f6', '#8b5cf6', '#ec4899'];
@@ -0,0 +1,263 @@
+import type { DietaryRestriction, GuestDetails, MealType, NameOrderSetting, RsvpStatus } from '@/types';
+import { detectNameOrder, parseGuestName, type ParsedGuestName } from '@/lib/guestNames';
+
+export type ImportEncoding = 'auto' | 'utf-8' | 'windows-1251';
+export type ImportDelimiter = 'auto' | ',' | ';' | '\t';
+
+export type ImportField =
+  | 'ignore'
+  | 'fullName'
+  | 'lastName'
+  | 'firstName'
+  | 'middleName'
+  | 'group'
+  | 'tags'
+  | 'rsvp'
+  | 'meal'
+  | 'dietary'
+  | 'dietaryNotes';
+
+export const importFieldLabels: Record<ImportField, string> = {
+  ignore: 'Не импортировать',
+  fullName: 'ФИО целиком',
+  lastName: 'Фамилия',
+  firstName: 'Имя',
+  middleName: 'Отчество',
+  group: 'Группа',
+  tags: 'Теги',
+  rsvp: 'Статус RSVP',
+  meal: 'Питание',
+  dietary: 'Ограничения',
+  dietaryNotes: 'Примечания к питанию',
+};
+
+// Guest as read from one spreadsheet row, before it gets an id
+export interface GuestImportRecord extends ParsedGuestName {
+  groupName?: string; // Matched to an existing group by name or created
+  details: GuestDetails;
+}
+
+export interface ImportPreviewRow {
+  line: number; // 1-based row number in the file, header included
+  record?: GuestImportRecord; // Missing when the row cannot be imported
+  errors: string[]; // Row is skipped
+  warnings: string[]; // Row is imported, the value is ignored or moved to notes
+}
+
+// Decode raw bytes. "auto" means UTF-8 unless the bytes are not valid UTF-8,
+// which for Russian spreadsheets almost always means an Excel export in Windows-1251
+export const decodeImportFile = (buffer: ArrayBuffer, encoding: ImportEncoding): { text: string; encoding: Exclude<ImportEncoding, 'auto'> } => {
+  if (encoding !== 'auto') {
+    return { text: new TextDecoder(encoding).decode(buffer), encoding };
+  }
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(buffer), encoding: 'utf-8' };
+  } catch {
+    return { text: new TextDecoder('windows-1251').decode(buffer), encoding: 'windows-1251' };
+  }
+};
+
+// The candidate that splits the first line into the most columns
+export const detectDelimiter = (text: string): Exclude<ImportDelimiter, 'auto'> => {
+  const firstLine = text.split(/\r?\n/).find((line) => line.trim()) ?? '';
+  const candidates: Exclude<ImportDelimiter, 'auto'>[] = ['\t', ';', ','];
+  const counts = candidates.map((d) => firstLine.split(d).length - 1);
+  const best = counts.indexOf(Math.max(...counts));
+  return counts[best] > 0 ? candidates[best] : ';';
+};
+
+// RFC 4180: quoted cells may contain delimiters, line breaks and doubled quotes. Empty lines are dropped
+export interface DelimitedTable {
+  rows: string[][];
+  lines: number[]; // Line of the file each row starts on, so errors point at the right spreadsheet row
+}
+
+export const parseDelimited = (text: string, delimiter: string): DelimitedTable => {
+  const rows: string[][] = [];
+  const lines: number[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((c) => c.trim())) {
+      rows.push(row);
+      lines.push(rowLine);
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+        // A line break inside a quoted cell is still a line of the file
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) endRow();
+
+  return { rows, lines };
+};
+
+const headerKeywords: [ImportField, string[]][] = [
+  ['fullName', ['фио', 'full name', 'fullname', 'гость', 'guest']],
+  ['lastName', ['фамилия', 'last name', 'lastname', 'surname']],
+  ['firstName', ['имя', 'first name', 'firstname', 'given name']],
+  ['middleName', ['отчество', 'middle name', 'middlename', 'patronymic']],
+  ['group', ['группа', 'семья', 'group', 'family', 'household']],
+  ['tags', ['теги', 'тег', 'категория', 'tags', 'tag', 'category']],
+  ['rsvp', ['rsvp', 'статус', 'ответ', 'status']],
+  ['meal', ['питание', 'меню', 'meal', 'menu']],
+  ['dietary', ['ограничения', 'диета', 'dietary', 'diet', 'restrictions']],
+  ['dietaryNotes', ['аллергии', 'примечания', 'пожелания', 'allergies', 'notes']],
+];
+
+export const guessImportMapping = (header: string[]): ImportField[] => {
+  const used = new Set<ImportField>();
+  return header.map((cell) => {
+    const normalized = cell.trim().toLowerCase().replace(/ё/g, 'е');
+    const match = headerKeywords.find(([field, keywords]) =>
+      !used.has(field) && keywords.some((k) => normalized === k || normalized.startsWith(`${k} `))
+    );
+    if (!match) return 'ignore';
+    used.add(match[0]);
+    return match[0];
+  });
+};
+
+const rsvpValues: [RsvpStatus, string[]][] = [
+  ['confirmed', ['confirmed', 'yes', 'да', '+', 'подтвердил', 'подтвердила', 'подтверждено', 'придет']],
+  ['declined', ['declined', 'no', 'нет', '-', 'отказ', 'отказался', 'отказалась', 'не придет']],
+  ['maybe', ['maybe', '?', 'возможно', 'может быть']],
+  ['no-response', ['no response', 'no-response', 'нет ответа', 'без ответа']],
+  ['invited', ['invited', 'приглашен', 'приглашена']],
+];
+
+const mealPrefixes: [MealType, string[]][] = [
+  ['vegetarian', ['вегет', 'vegetarian']],
+  ['vegan', ['веган', 'vegan']],
+  ['halal', ['халял', 'halal']],
+  ['child', ['дет', 'child', 'kid']],
+  ['standard', ['станд', 'обыч', 'standard', 'regular']],
+];
+
+const dietaryPrefixes: [DietaryRestriction, string[]][] = [
+  ['gluten-free', ['без глют', 'глют', 'gluten']],
+  ['lactose-free', ['без лакт', 'лакт', 'без молок', 'lactose', 'dairy']],
+  ['nut-free', ['без орех', 'орех', 'nut']],
+];
+
+const normalizeValue = (value: string) => value.trim().toLowerCase().replace(/ё/g, 'е');
+
+const parseRsvp = (value: string): RsvpStatus | undefined =>
+  rsvpValues.find(([, words]) => words.includes(normalizeValue(value)))?.[0];
+
+const parseMeal = (value: string): MealType | undefined => {
+  const normalized = normalizeValue(value);
+  return mealPrefixes.find(([, prefixes]) => prefixes.some((p) => normalized.startsWith(p)))?.[0];
+};
+
+const splitList = (value: string) => value.split(/[,;/|]/).map((v) => v.trim()).filter(Boolean);
+
+// Turn spreadsheet rows into guest records according to the column mapping
+export const buildImportPreview = (
+  { rows, lines }: DelimitedTable,
+  mapping: ImportField[],
+  hasHeader: boolean,
+  nameOrder: NameOrderSetting = 'surname-first'
+): ImportPreviewRow[] => {
+  const firstRow = hasHeader ? 1 : 0;
+  const dataRows = rows.slice(firstRow);
+
+  return dataRows.map((cells, index) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const value = (field: ImportField) => {
+      const column = mapping.indexOf(field);
+      return column === -1 ? '' : (cells[column] ?? '').trim();
+    };
+
+    // Separate name columns win over the full name column
+    let name: ParsedGuestName = {
+      firstName: value('firstName'),
+      lastName: value('lastName'),
+      middleName: value('middleName') || undefined,
+    };
+    if (value('fullName') && !name.firstName && !name.lastName) {
+      name = parseGuestName(value('fullName'), nameOrder);
+    } else {
+      name.nameOrder = detectNameOrder(name, nameOrder);
+    }
+    if (!name.firstName && !name.lastName) {
+      errors.push('Не указано имя');
+    }
+
+    const details: GuestDetails = {};
+
+    const tags = splitList(value('tags'));
+    if (tags.length > 0) details.tags = [...new Set(tags)];
+
+    if (value('rsvp')) {
+      details.rsvp = parseRsvp(value('rsvp'));
+      if (!details.rsvp) warnings.push(`Неизвестный статус «${value('rsvp')}»`);
+    }
+
+    if (value('meal')) {
+      const meal = parseMeal(value('meal'));
+      if (!meal) warnings.push(`Неизвестный тип питания «${value('meal')}»`);
+      else if (meal !== 'standard') details.meal = meal;
+    }
+
+    // Restrictions we do not know go to the notes so nothing the caterer needs is lost
+    const notes: string[] = value('dietaryNotes') ? [value('dietaryNotes')] : [];
+    const dietary = new Set<DietaryRestriction>();
+    splitList(value('dietary')).forEach((token) => {
+      const normalized = normalizeValue(token);
+      const match = dietaryPrefixes.find(([, prefixes]) => prefixes.some((p) => normalized.startsWith(p)));
+      if (match) {
+        dietary.add(match[0]);
+      } else {
+        notes.push(token);
+        warnings.push(`«${token}» добавлено в примечания к питанию`);
+      }
+    });
+    if (dietary.size > 0) details.dietary = [...dietary];
+    if (notes.length > 0) details.dietaryNotes = notes.join('; ');
+
+    return {
+      line: lines[firstRow + index],
+      record: errors.length === 0
+        ? { ...name, groupName: value('group') || undefined, details }
+        : undefined,
+      errors,
+      warnings,
+    };
+  });
+};
+
+export const isNameMapped = (mapping: ImportField[]) =>
+  mapping.includes('fullName') || mapping.includes('firstName') || mapping.includes('lastName');
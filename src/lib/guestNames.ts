@@ -0,0 +1,152 @@
+import type { Guest, NameOrder, NameOrderSetting } from '@/types';
+
+export interface ParsedGuestName {
+  firstName: string;
+  lastName: string;
+  middleName?: string;
+  prefix?: string; // "Dr.", "проф."
+  suffix?: string; // "Jr.", "III"
+  nameOrder?: NameOrder; // Order used to display the name; surname-first when missing
+}
+
+export const nameOrderLabels: Record<NameOrderSetting, string> = {
+  auto: 'Автоопределение',
+  'surname-first': 'Фамилия Имя Отчество',
+  'given-first': 'Имя Фамилия (John Smith)',
+};
+
+// Compared lowercased and without the trailing dot
+const PREFIXES = new Set(['dr', 'mr', 'mrs', 'ms', 'miss', 'mx', 'prof', 'sir', 'dame', 'rev', 'fr', 'д-р', 'проф', 'г-н', 'г-жа']);
+const SUFFIXES = new Set(['jr', 'sr', 'ii', 'iii', 'iv', 'phd', 'md', 'esq', 'мл', 'ст']);
+// Lowercase particles that belong to the surname: "van Gogh", "de la Cruz"
+const SURNAME_PARTICLES = new Set(['van', 'von', 'der', 'den', 'de', 'del', 'della', 'la', 'le', 'da', 'di', 'dos', 'das', 'du', 'ter', 'ten', 'bin', 'ibn', 'al']);
+
+const bareToken = (token: string) => token.toLowerCase().replace(/[.,]+$/, '');
+
+const isParticle = (token: string) => SURNAME_PARTICLES.has(token);
+
+// Russian patronymics and their transliterations: Иванович, Ивановна, Ильич, Кузьминична, Ivanovich
+export const isPatronymic = (token?: string): boolean =>
+  !!token && token.length > 4 && /(вич|вна|ична|инична|ьич|vich|vna)$/i.test(token);
+
+const isCyrillic = (value: string) => /[а-яё]/i.test(value);
+
+// "auto" follows the patronymic ("Иван Иванович Петров" vs "Петров Иван Иванович");
+// without one Cyrillic names are read surname-first and Latin names given-first
+export const resolveNameOrder = (tokens: string[], setting: NameOrderSetting): NameOrder => {
+  if (setting !== 'auto') return setting;
+  const patronymic = tokens.findIndex(isPatronymic);
+  if (patronymic === 1 && tokens.length > 2) return 'given-first';
+  if (patronymic >= 2) return 'surname-first';
+  return isCyrillic(tokens.join(' ')) ? 'surname-first' : 'given-first';
+};
+
+// Order for a name entered into separate fields
+export const detectNameOrder = (name: ParsedGuestName, setting: NameOrderSetting): NameOrder => {
+  if (setting !== 'auto') return setting;
+  if (isPatronymic(name.middleName)) return 'surname-first';
+  return isCyrillic(`${name.lastName} ${name.firstName}`) ? 'surname-first' : 'given-first';
+};
+
+const splitTitles = (tokens: string[]) => {
+  let start = 0;
+  let end = tokens.length;
+  while (start < end - 1 && PREFIXES.has(bareToken(tokens[start]))) start++;
+  while (end > start + 1 && SUFFIXES.has(bareToken(tokens[end - 1]))) end--;
+  return {
+    prefix: tokens.slice(0, start).join(' ') || undefined,
+    core: tokens.slice(start, end).map((t) => t.replace(/,$/, '')),
+    suffix: tokens.slice(end).map((t) => t.replace(/^,/, '')).join(' ').replace(/,$/, '') || undefined,
+  };
+};
+
+export const parseGuestName = (fullName: string, order: NameOrderSetting = 'surname-first'): ParsedGuestName => {
+  // "Smith, John" is surname-first whatever the setting
+  const comma = fullName.match(/^([^,]+),\s*(.+)$/);
+  const afterComma = comma?.[2].trim().split(/\s+/) ?? [];
+  const isSurnameComma = !!comma && !afterComma.every((t) => SUFFIXES.has(bareToken(t)));
+  const parts = (isSurnameComma ? `${comma![1]} ${comma![2]}` : fullName).trim().split(/\s+/).filter(p => p.length > 0);
+
+  if (parts.length === 0) {
+    return { firstName: '', lastName: '' };
+  }
+
+  const { prefix, core, suffix } = splitTitles(parts);
+  const readOrder = isSurnameComma ? 'surname-first' : resolveNameOrder(core, order);
+
+  const parsed = parseCore(core, readOrder);
+  // In auto mode "Иван Иванович Петров" is still shown as "Петров Иван Иванович"
+  const nameOrder = order === 'auto' ? detectNameOrder(parsed, order) : readOrder;
+  return { ...parsed, prefix, suffix, nameOrder };
+};
+
+const parseCore = (core: string[], order: NameOrder): ParsedGuestName => {
+  if (core.length === 1) {
+    // Only one name provided - treat as first name
+    return { firstName: core[0], lastName: '' };
+  }
+
+  if (order === 'given-first') {
+    // "John Paul van der Berg": everything from the first particle after the given name is the surname
+    const particle = core.findIndex((t, i) => i > 0 && i < core.length - 1 && isParticle(t));
+    const surnameStart = particle === -1 ? core.length - 1 : particle;
+    return {
+      firstName: core[0],
+      middleName: core.slice(1, surnameStart).join(' ') || undefined,
+      lastName: core.slice(surnameStart).join(' '),
+    };
+  }
+
+  // "Фамилия Имя Отчество"; leading particles stay with the surname: "van Gogh Vincent"
+  let surnameEnd = 0;
+  while (surnameEnd < core.length - 2 && isParticle(core[surnameEnd])) surnameEnd++;
+  return {
+    lastName: core.slice(0, surnameEnd + 1).join(' '),
+    firstName: core[surnameEnd + 1],
+    middleName: core.slice(surnameEnd + 2).join(' ') || undefined,
+  };
+};
+
+export const getNameOrder = (name: Pick<ParsedGuestName, 'nameOrder'>): NameOrder => name.nameOrder ?? 'surname-first';
+
+// Format fullName consistently: "Фамилия Имя Отчество" or "Dr. John Smith Jr."
+export const formatFullName = (name: ParsedGuestName): string => {
+  const { firstName, lastName, middleName, prefix, suffix } = name;
+  const parts = getNameOrder(name) === 'given-first'
+    ? [prefix, firstName, middleName, lastName, suffix]
+    : [prefix, lastName, firstName, middleName, suffix];
+  return parts.map((part) => part?.trim()).filter(Boolean).join(' ');
+};
+
+const initial = (value?: string) => value?.trim().charAt(0).toUpperCase() ?? '';
+
+// Format: ИФ (First Name initial + Last Name initial)
+export const getInitials = (guest: Guest): string => `${initial(guest.firstName)}${initial(guest.lastName)}`;
+
+// Short name for lists: "Фамилия И.О." or "J. Smith"
+export const getShortName = (guest: Guest): string => {
+  if (guest.placeholder || !guest.lastName) {
+    return guest.placeholder ? guest.fullName : guest.firstName;
+  }
+
+  if (getNameOrder(guest) === 'given-first') {
+    return `${initial(guest.firstName)}. ${guest.lastName}`;
+  }
+
+  const middleInitial = guest.middleName?.trim() ? `${initial(guest.middleName)}.` : '';
+  return `${guest.lastName} ${initial(guest.firstName)}.${middleInitial}`;
+};
+
+// Name for tooltips: "И.О.Фамилия" or the full western name with titles
+export const getInitialsName = (guest: Guest): string => {
+  if (guest.placeholder || !guest.lastName) {
+    return guest.placeholder ? guest.fullName : guest.firstName;
+  }
+
+  if (getNameOrder(guest) === 'given-first') {
+    return formatFullName(guest);
+  }
+
+  const middleInitial = guest.middleName?.trim() ? `${initial(guest.middleName)}.` : '';
+  return `${initial(guest.firstName)}.${middleInitial}${guest.lastName}`;
+};
@@ -0,0 +1,41 @@
+import type { Guest } from '@/types';
+
+// Offered as quick picks in the tag editor; any other text is accepted too
+export const PRESET_TAGS = ['VIP', 'Сторона невесты', 'Сторона жениха', 'Коллеги', 'Дети'];
+
+export const CATEGORY_COLORS = ['#dc2626', '#ea580c', '#ca8a04', '#16a34a', '#0891b2', '#2563eb', '#7c3aed', '#db2777', '#475569'];
+
+export interface CategoryLegendEntry {
+  color: string;
+  label: string;
+  count: number;
+}
+
+export const normalizeTag = (tag: string) => tag.trim().replace(/\s+/g, ' ');
+
+// All tags used in the guest list, most frequent first
+export const collectTags = (guests: Guest[]): string[] => {
+  const counts = new Map<string, number>();
+  guests.forEach((guest) => guest.tags?.forEach((tag) => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return [...counts.keys()].sort((a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b, 'ru'));
+};
+
+export const hasAllTags = (guest: Guest, tags: string[]) =>
+  tags.every((tag) => guest.tags?.includes(tag));
+
+// One entry per colour used by the given guests. The label lists the tags all guests of that
+// colour share, so "VIP" painted red shows up as "VIP" in the legend
+export const getCategoryLegend = (guests: Guest[]): CategoryLegendEntry[] => {
+  const byColor = new Map<string, Guest[]>();
+  guests.forEach((guest) => {
+    if (!guest.categoryColor) return;
+    byColor.set(guest.categoryColor, [...(byColor.get(guest.categoryColor) || []), guest]);
+  });
+
+  return [...byColor.entries()]
+    .map(([color, members]) => {
+      const shared = (members[0].tags || []).filter((tag) => members.every((m) => m.tags?.includes(tag)));
+      return { color, label: shared.length > 0 ? shared.join(', ') : 'Без тега', count: members.length };
+    })
+    .sort((a, b) => b.count - a.count);
+};
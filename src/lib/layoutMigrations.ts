@@ -0,0 +1,96 @@
+// Version of the plan format written to exported files and to localStorage.
+// Bump it together with a new entry in `migrations` whenever Table/Guest change shape.
+export const LAYOUT_SCHEMA_VERSION = 10;
+
+export const DEFAULT_EVENT_NAME = 'Моё мероприятие';
+
+type LayoutData = Record<string, unknown>;
+type Migration = (data: LayoutData) => LayoutData;
+
+const isRecord = (value: unknown): value is LayoutData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const mapRecords = (value: unknown, fn: (item: LayoutData) => LayoutData): unknown =>
+  Array.isArray(value) ? value.map((item) => (isRecord(item) ? fn(item) : item)) : value;
+
+// migrations[n] upgrades data saved with version n to version n + 1
+const migrations: Record<number, Migration> = {
+  // 0 -> 1: unversioned plans from early builds could miss rotation and fullName
+  0: (data) => ({
+    ...data,
+    tables: mapRecords(data.tables, (table) => ({
+      ...table,
+      rotation: typeof table.rotation === 'number' ? table.rotation : 0,
+    })),
+    guests: mapRecords(data.guests, (guest) => {
+      if (typeof guest.fullName === 'string') return guest;
+      const fullName = [guest.lastName, guest.firstName, guest.middleName]
+        .filter((part) => typeof part === 'string' && part.trim())
+        .join(' ');
+      return { ...guest, fullName };
+    }),
+  }),
+  // 1 -> 2: seating constraints for the auto-seat solver
+  1: (data) => ({
+    ...data,
+    constraints: Array.isArray(data.constraints) ? data.constraints : [],
+  }),
+  // 2 -> 3: guest groups (households, couples, parties)
+  2: (data) => ({
+    ...data,
+    groups: Array.isArray(data.groups) ? data.groups : [],
+  }),
+  // 3 -> 4: per-plan settings (RSVP handling)
+  3: (data) => ({
+    ...data,
+    settings: isRecord(data.settings) ? data.settings : { excludeDeclined: false },
+  }),
+  // 4 -> 5: name order setting. Older plans were always parsed surname-first
+  4: (data) => ({
+    ...data,
+    settings: isRecord(data.settings) ? { nameOrder: 'surname-first', ...data.settings } : data.settings,
+  }),
+  // 5 -> 6: several events side by side, each plan carries its event details
+  5: (data) => ({
+    ...data,
+    event: isRecord(data.event) ? data.event : { name: DEFAULT_EVENT_NAME },
+  }),
+  // 6 -> 7: grid settings. Tables were never snapped before, so snapping starts off
+  6: (data) => ({
+    ...data,
+    settings: isRecord(data.settings) ? { gridSize: 20, snapToGrid: false, ...data.settings } : data.settings,
+  }),
+  // 7 -> 8: stage, bar, walls and other venue objects next to the tables
+  7: (data) => ({
+    ...data,
+    venueObjects: Array.isArray(data.venueObjects) ? data.venueObjects : [],
+  }),
+  // 8 -> 9: background image of the venue plan
+  8: (data) => ({
+    ...data,
+    backgroundImage: isRecord(data.backgroundImage) ? data.backgroundImage : null,
+  }),
+  // 9 -> 10: length units and the walking clearance checked between tables
+  9: (data) => ({
+    ...data,
+    settings: isRecord(data.settings) ? { lengthUnit: 'cm', minClearance: 90, ...data.settings } : data.settings,
+  }),
+};
+
+export const getNewerVersionMessage = (version: number): string =>
+  `Файл создан более новой версией приложения (версия формата ${version}, поддерживается до ${LAYOUT_SCHEMA_VERSION})`;
+
+export const migrateLayoutData = (data: unknown, fromVersion: number): unknown => {
+  if (!isRecord(data)) return data;
+  if (fromVersion > LAYOUT_SCHEMA_VERSION) throw new Error(getNewerVersionMessage(fromVersion));
+
+  let migrated = data;
+  for (let version = fromVersion; version < LAYOUT_SCHEMA_VERSION; version++) {
+    migrated = migrations[version](migrated);
+  }
+  return migrated;
+};
+
+// Files exported before versioning have no "version" field
+export const getLayoutDataVersion = (data: unknown): number =>
+  isRecord(data) && typeof data.version === 'number' ? data.version : 0;
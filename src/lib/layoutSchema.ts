@@ -0,0 +1,242 @@
+import { z } from 'zod';
+import type { EventDetails, SeatingLayout } from '@/types';
+import { pruneConstraints } from './autoSeat';
+import { dateStamp, downloadBlob } from './download';
+import {
+  LAYOUT_SCHEMA_VERSION,
+  getLayoutDataVersion,
+  getNewerVersionMessage,
+  migrateLayoutData,
+} from './layoutMigrations';
+
+const guestSchema = z.object({
+  id: z.string().min(1),
+  firstName: z.string(),
+  lastName: z.string(),
+  middleName: z.string().optional(),
+  fullName: z.string(),
+  prefix: z.string().optional(),
+  suffix: z.string().optional(),
+  nameOrder: z.enum(['surname-first', 'given-first']).optional(),
+  groupId: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  categoryColor: z.string().optional(),
+  meal: z.enum(['standard', 'vegetarian', 'vegan', 'halal', 'child']).optional(),
+  dietary: z.array(z.enum(['gluten-free', 'lactose-free', 'nut-free'])).optional(),
+  dietaryNotes: z.string().optional(),
+  rsvp: z.enum(['invited', 'confirmed', 'declined', 'maybe', 'no-response']).optional(),
+  companionOf: z.string().optional(),
+  companionKind: z.enum(['plus-one', 'child']).optional(),
+  placeholder: z.boolean().optional(),
+  phone: z.string().optional(),
+  email: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+const groupSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  kind: z.enum(['family', 'couple', 'party', 'other']),
+  color: z.string(),
+});
+
+const seatSchema = z.object({
+  id: z.string().min(1),
+  guestId: z.string().nullable(),
+  position: z.number().int().nonnegative(),
+});
+
+const tableSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['round', 'square', 'rectangle', 'theater', 'amphitheater']),
+  name: z.string(),
+  x: z.number(),
+  y: z.number(),
+  rotation: z.number(),
+  seats: z.array(seatSchema),
+  rows: z.number().int().positive().optional(),
+  seatsPerRow: z.number().int().positive().optional(),
+  rowConfigs: z.array(z.object({ seatCount: z.number().int().nonnegative() })).optional(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+});
+
+const venueObjectSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['stage', 'dance-floor', 'buffet', 'bar', 'dj', 'entrance', 'emergency-exit', 'pillar', 'wall', 'label']),
+  label: z.string(),
+  x: z.number(),
+  y: z.number(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  rotation: z.number(),
+});
+
+const backgroundImageSchema = z.object({
+  src: z.string().regex(/^data:image\//),
+  x: z.number(),
+  y: z.number(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  opacity: z.number().min(0).max(1),
+  visible: z.boolean(),
+  calibrated: z.boolean(),
+});
+
+const constraintSchema = z.discriminatedUnion('type', [
+  z.object({ id: z.string().min(1), type: z.literal('together'), guestIds: z.array(z.string()).min(2) }),
+  z.object({ id: z.string().min(1), type: z.literal('apart'), guestIds: z.tuple([z.string(), z.string()]) }),
+  z.object({ id: z.string().min(1), type: z.literal('pin'), guestId: z.string(), tableId: z.string() }),
+]);
+
+const settingsSchema = z.object({
+  excludeDeclined: z.boolean(),
+  nameOrder: z.enum(['auto', 'surname-first', 'given-first']),
+  gridSize: z.number().positive(),
+  snapToGrid: z.boolean(),
+  lengthUnit: z.enum(['cm', 'm', 'ft']),
+  minClearance: z.number().nonnegative(),
+});
+
+const eventSchema = z.object({
+  name: z.string(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  venue: z.string().optional(),
+});
+
+// Shape of the file written by the header "Экспорт" button
+export const layoutFileSchema = z.object({
+  event: eventSchema,
+  tables: z.array(tableSchema),
+  venueObjects: z.array(venueObjectSchema),
+  backgroundImage: backgroundImageSchema.nullable(),
+  guests: z.array(guestSchema),
+  unassignedGuests: z.array(z.string()),
+  constraints: z.array(constraintSchema),
+  groups: z.array(groupSchema),
+  settings: settingsSchema,
+  version: z.number().int().optional(),
+  exportDate: z.string().optional(),
+});
+
+export type LayoutFile = SeatingLayout & { version: number; exportDate: string };
+
+export const createLayoutFile = (layout: SeatingLayout): LayoutFile => ({
+  version: LAYOUT_SCHEMA_VERSION,
+  exportDate: new Date().toISOString(),
+  ...layout,
+});
+
+// Event name in the file name keeps exports of different events apart
+const getLayoutFileName = (event: EventDetails) => {
+  const name = event.name.replace(/[\\/:*?"<>|]+/g, '').trim().replace(/\s+/g, '-');
+  return `${name || 'seating-plan'}-${dateStamp()}.json`;
+};
+
+export const downloadLayoutFile = (layout: SeatingLayout) => {
+  const data = createLayoutFile(layout);
+  downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), getLayoutFileName(layout.event));
+};
+
+export type LayoutParseResult =
+  | { success: true; layout: SeatingLayout; repairs: number }
+  | { success: false; errors: string[] };
+
+// Format: "tables[0].seats[2].guestId"
+const formatIssuePath = (path: PropertyKey[]): string => {
+  if (path.length === 0) return '(корень файла)';
+
+  return path.reduce<string>((acc, segment) => {
+    if (typeof segment === 'number') return `${acc}[${segment}]`;
+    return acc ? `${acc}.${String(segment)}` : String(segment);
+  }, '');
+};
+
+// Make seat assignments and the unassigned list consistent with the guest list:
+// - seats pointing to unknown guests are freed
+// - a guest seated twice keeps only the first seat
+// - every guest without a seat ends up in unassignedGuests exactly once
+// - constraints referring to unknown guests or tables are dropped
+// - guests referring to unknown groups are ungrouped
+// - companions of unknown primary guests become regular guests
+export const repairLayout = (layout: SeatingLayout): { layout: SeatingLayout; repairs: number } => {
+  const guestIds = new Set(layout.guests.map((g) => g.id));
+  const seatedIds = new Set<string>();
+  let repairs = 0;
+
+  const tables = layout.tables.map((table) => ({
+    ...table,
+    seats: table.seats.map((seat) => {
+      if (!seat.guestId) return seat;
+      if (!guestIds.has(seat.guestId) || seatedIds.has(seat.guestId)) {
+        repairs++;
+        return { ...seat, guestId: null };
+      }
+      seatedIds.add(seat.guestId);
+      return seat;
+    }),
+  }));
+
+  const unassignedGuests: string[] = [];
+  const seen = new Set<string>();
+  layout.unassignedGuests.forEach((id) => {
+    if (!guestIds.has(id) || seatedIds.has(id) || seen.has(id)) {
+      repairs++;
+      return;
+    }
+    seen.add(id);
+    unassignedGuests.push(id);
+  });
+
+  layout.guests.forEach((guest) => {
+    if (!seatedIds.has(guest.id) && !seen.has(guest.id)) {
+      repairs++;
+      seen.add(guest.id);
+      unassignedGuests.push(guest.id);
+    }
+  });
+
+  const constraints = pruneConstraints(layout.constraints, layout.guests, tables);
+  repairs += layout.constraints.length - constraints.length;
+
+  const groupIds = new Set(layout.groups.map((g) => g.id));
+  const guests = layout.guests.map((guest) => {
+    let repaired = guest;
+    if (guest.groupId && !groupIds.has(guest.groupId)) {
+      repairs++;
+      repaired = { ...repaired, groupId: undefined };
+    }
+    if (guest.companionOf && (guest.companionOf === guest.id || !guestIds.has(guest.companionOf))) {
+      repairs++;
+      repaired = { ...repaired, companionOf: undefined, companionKind: undefined };
+    }
+    return repaired;
+  });
+
+  return { layout: { ...layout, tables, guests, unassignedGuests, constraints }, repairs };
+};
+
+export const parseLayoutFile = (data: unknown): LayoutParseResult => {
+  const version = getLayoutDataVersion(data);
+  if (version > LAYOUT_SCHEMA_VERSION) {
+    return { success: false, errors: [getNewerVersionMessage(version)] };
+  }
+
+  const result = layoutFileSchema.safeParse(migrateLayoutData(data, version), { error: z.locales.ru().localeError });
+
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map((issue) => `${formatIssuePath(issue.path)}: ${issue.message}`),
+    };
+  }
+
+  const { event, tables, venueObjects, backgroundImage, guests, unassignedGuests, constraints, groups, settings } = result.data;
+  const duplicateGuest = guests.find((g, i) => guests.findIndex((other) => other.id === g.id) !== i);
+  if (duplicateGuest) {
+    return { success: false, errors: [`guests: повторяющийся id "${duplicateGuest.id}"`] };
+  }
+
+  const { layout, repairs } = repairLayout({ event, tables, venueObjects, backgroundImage, guests, unassignedGuests, constraints, groups, settings });
+  return { success: true, layout, repairs };
+};
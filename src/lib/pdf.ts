@@ -0,0 +1,72 @@
+// Minimal PDF writer: every page is one full-page JPEG. Enough for printing cards and plans
+// without a PDF library; text is rasterised, so pages are rendered at print resolution
+
+export interface PdfImagePage {
+  jpeg: Uint8Array;
+  widthPx: number;
+  heightPx: number;
+  widthMm: number;
+  heightMm: number;
+}
+
+const MM_TO_PT = 72 / 25.4;
+
+// Document info strings in UTF-16BE so Cyrillic titles survive
+const pdfTextString = (value: string) => {
+  const hex = Array.from(value).map((char) => {
+    const code = char.codePointAt(0) ?? 0x3f;
+    return code > 0xffff ? '003F' : code.toString(16).padStart(4, '0').toUpperCase();
+  });
+  return `<FEFF${hex.join('')}>`;
+};
+
+export const createImagePdf = (pages: PdfImagePage[], title: string): Blob => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const object = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // 1: catalog, 2: page tree, 3: info, then page / content / image triples
+  const pageIds = pages.map((_, i) => 4 + i * 3);
+  write('%PDF-1.4\n%âãÏÓ\n');
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  object(2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  object(3, `<< /Title ${pdfTextString(title)} /Producer (Smart Event) >>`);
+
+  pages.forEach((page, i) => {
+    const [pageId, contentId, imageId] = [pageIds[i], pageIds[i] + 1, pageIds[i] + 2];
+    const width = (page.widthMm * MM_TO_PT).toFixed(2);
+    const height = (page.heightMm * MM_TO_PT).toFixed(2);
+    const content = encoder.encode(`q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`);
+
+    object(pageId, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>`);
+    object(contentId, `<< /Length ${content.length} >>`, content);
+    object(imageId, `<< /Type /XObject /Subtype /Image /Width ${page.widthPx} /Height ${page.heightPx} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>`, page.jpeg);
+  });
+
+  const xrefOffset = length;
+  const size = 4 + pages.length * 3;
+  write(`xref\n0 ${size}\n0000000000 65535 f \n`);
+  for (let id = 1; id < size; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${size} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+};
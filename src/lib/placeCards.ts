@@ -0,0 +1,148 @@
+import type { Guest, Table } from '@/types';
+import { escapeHtml } from '@/lib/print';
+import type { SvgPage } from '@/lib/svgImage';
+
+export type CardSize = 'small' | 'medium' | 'large';
+export type CardFont = 'serif' | 'sans' | 'script';
+export type CardNameFormat = 'full' | 'first-last' | 'first';
+export type CardSort = 'table' | 'alphabet';
+export type SheetOrientation = 'portrait' | 'landscape';
+
+// Face size in millimetres; a folded tent card is twice as tall before folding
+export const CARD_SIZES: Record<CardSize, { label: string; width: number; height: number }> = {
+  small: { label: '85 × 55 мм (визитка)', width: 85, height: 55 },
+  medium: { label: '95 × 65 мм', width: 95, height: 65 },
+  large: { label: '148 × 105 мм (A6)', width: 148, height: 105 },
+};
+
+export const CARD_FONTS: Record<CardFont, { label: string; family: string; charWidth: number }> = {
+  serif: { label: 'С засечками', family: "Georgia, 'Times New Roman', serif", charWidth: 0.55 },
+  sans: { label: 'Без засечек', family: "'Helvetica Neue', Arial, sans-serif", charWidth: 0.58 },
+  script: { label: 'Рукописный', family: "'Segoe Script', 'Brush Script MT', 'Apple Chancery', cursive", charWidth: 0.6 },
+};
+
+export const cardNameFormatLabels: Record<CardNameFormat, string> = {
+  full: 'Полное имя',
+  'first-last': 'Имя Фамилия',
+  first: 'Только имя',
+};
+
+export interface CardOptions {
+  size: CardSize;
+  folded: boolean; // Tent card: the face is printed twice, the upper copy upside down
+  font: CardFont;
+  orientation: SheetOrientation;
+  cutMarks: boolean;
+}
+
+export interface CardContent {
+  title: string;
+  subtitle?: string;
+}
+
+const A4 = { width: 210, height: 297 };
+const SHEET_MARGIN = 10;
+
+export const formatCardName = (guest: Guest, format: CardNameFormat): string => {
+  if (guest.placeholder || format === 'full') return guest.fullName;
+  if (format === 'first') return guest.firstName;
+  return [guest.prefix, guest.firstName, guest.lastName].filter(Boolean).join(' ');
+};
+
+const byPosition = (table: Table) => [...table.seats].sort((a, b) => a.position - b.position);
+
+// One card per seated guest, with the table name underneath
+export const collectGuestCards = (
+  tables: Table[],
+  guests: Guest[],
+  options: { nameFormat: CardNameFormat; showTable: boolean; sort: CardSort }
+): CardContent[] => {
+  const guestById = new Map(guests.map((g) => [g.id, g]));
+  const seated = tables.flatMap((table) => byPosition(table).flatMap((seat) => {
+    const guest = seat.guestId ? guestById.get(seat.guestId) : undefined;
+    return guest ? [{ guest, table }] : [];
+  }));
+
+  if (options.sort === 'alphabet') {
+    seated.sort((a, b) =>
+      a.guest.lastName.localeCompare(b.guest.lastName, 'ru') || a.guest.firstName.localeCompare(b.guest.firstName, 'ru')
+    );
+  }
+
+  return seated.map(({ guest, table }) => ({
+    title: formatCardName(guest, options.nameFormat),
+    subtitle: options.showTable ? table.name : undefined,
+  }));
+};
+
+export const collectTableCards = (tables: Table[]): CardContent[] =>
+  tables.map((table) => ({ title: table.name }));
+
+export const getSheetLayout = (options: CardOptions) => {
+  const sheet = options.orientation === 'portrait' ? A4 : { width: A4.height, height: A4.width };
+  const card = CARD_SIZES[options.size];
+  const cardHeight = options.folded ? card.height * 2 : card.height;
+  const columns = Math.floor((sheet.width - SHEET_MARGIN * 2) / card.width);
+  const rows = Math.floor((sheet.height - SHEET_MARGIN * 2) / cardHeight);
+  return {
+    sheet,
+    cardWidth: card.width,
+    cardHeight,
+    columns,
+    rows,
+    perSheet: columns * rows,
+    // The grid is centred so the cut margins are even
+    offsetX: (sheet.width - columns * card.width) / 2,
+    offsetY: (sheet.height - rows * cardHeight) / 2,
+  };
+};
+
+// Shrink long names until they fit the face width
+const fitFontSize = (text: string, maxSize: number, width: number, charWidth: number) =>
+  Math.min(maxSize, (width * 0.88) / Math.max(1, text.length * charWidth));
+
+const renderFace = (content: CardContent, width: number, height: number, font: CardFont) => {
+  const { family, charWidth } = CARD_FONTS[font];
+  const titleSize = fitFontSize(content.title, height * (content.subtitle ? 0.26 : 0.4), width, charWidth);
+  const titleY = content.subtitle ? height * 0.48 : height * 0.5;
+  const subtitleSize = fitFontSize(content.subtitle ?? '', height * 0.12, width, charWidth);
+
+  return [
+    `<text x="${width / 2}" y="${titleY}" font-family="${family}" font-size="${titleSize.toFixed(2)}" text-anchor="middle" dominant-baseline="central" fill="#111">${escapeHtml(content.title)}</text>`,
+    content.subtitle
+      ? `<text x="${width / 2}" y="${height * 0.78}" font-family="${family}" font-size="${subtitleSize.toFixed(2)}" text-anchor="middle" dominant-baseline="central" fill="#555">${escapeHtml(content.subtitle)}</text>`
+      : '',
+  ].join('');
+};
+
+const renderCard = (content: CardContent, options: CardOptions, width: number, height: number) => {
+  const outline = options.cutMarks
+    ? `<rect width="${width}" height="${height}" fill="none" stroke="#bbb" stroke-width="0.2"/>`
+    : '';
+  if (!options.folded) return outline + renderFace(content, width, height, options.font);
+
+  // The top half ends up on the back of the tent, so it is turned upside down
+  const face = height / 2;
+  return [
+    outline,
+    `<g transform="rotate(180 ${width / 2} ${face / 2})">${renderFace(content, width, face, options.font)}</g>`,
+    `<g transform="translate(0 ${face})">${renderFace(content, width, face, options.font)}</g>`,
+    `<line x1="0" y1="${face}" x2="${width}" y2="${face}" stroke="#bbb" stroke-width="0.2" stroke-dasharray="2 1.5"/>`,
+  ].join('');
+};
+
+export const buildCardPages = (cards: CardContent[], options: CardOptions): SvgPage[] => {
+  const layout = getSheetLayout(options);
+  if (layout.perSheet === 0) return [];
+
+  const pages: SvgPage[] = [];
+  for (let start = 0; start < cards.length; start += layout.perSheet) {
+    const body = cards.slice(start, start + layout.perSheet).map((card, i) => {
+      const x = layout.offsetX + (i % layout.columns) * layout.cardWidth;
+      const y = layout.offsetY + Math.floor(i / layout.columns) * layout.cardHeight;
+      return `<g transform="translate(${x} ${y})">${renderCard(card, options, layout.cardWidth, layout.cardHeight)}</g>`;
+    }).join('');
+    pages.push({ body, widthMm: layout.sheet.width, heightMm: layout.sheet.height });
+  }
+  return pages;
+};
@@ -0,0 +1,41 @@
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const BASE_PRINT_STYLES = `
+  body { font-family: system-ui, sans-serif; font-size: 12px; color: #111; margin: 16px; }
+  h1 { font-size: 18px; margin: 0 0 12px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #999; padding: 4px 6px; text-align: left; vertical-align: top; }
+  th { background: #f0f0f0; }
+  tfoot td { font-weight: 600; }
+`;
+
+// Render the HTML into a hidden iframe and open the browser print dialog for it
+export const printHtml = (title: string, bodyHtml: string, styles = '') => {
+  const iframe = document.createElement('iframe');
+  iframe.style.position = 'fixed';
+  iframe.style.width = '0';
+  iframe.style.height = '0';
+  iframe.style.border = '0';
+  document.body.appendChild(iframe);
+
+  const doc = iframe.contentDocument;
+  const win = iframe.contentWindow;
+  if (!doc || !win) {
+    iframe.remove();
+    return;
+  }
+
+  doc.open();
+  doc.write(`<!DOCTYPE html><html lang="ru"><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>
+<style>${BASE_PRINT_STYLES}${styles}</style></head><body>${bodyHtml}</body></html>`);
+  doc.close();
+
+  win.addEventListener('afterprint', () => iframe.remove());
+  win.focus();
+  win.print();
+};
@@ -0,0 +1,28 @@
+import type { Guest, RsvpStatus } from '@/types';
+
+export const RSVP_STATUSES: RsvpStatus[] = ['invited', 'confirmed', 'maybe', 'declined', 'no-response'];
+
+export const rsvpLabels: Record<RsvpStatus, string> = {
+  invited: 'Приглашён',
+  confirmed: 'Подтвердил',
+  maybe: 'Возможно',
+  declined: 'Отказался',
+  'no-response': 'Нет ответа',
+};
+
+// Tailwind classes for the status badge
+export const rsvpBadgeClasses: Record<RsvpStatus, string> = {
+  invited: 'bg-blue-100 text-blue-700 border-blue-200',
+  confirmed: 'bg-green-100 text-green-700 border-green-200',
+  maybe: 'bg-amber-100 text-amber-700 border-amber-200',
+  declined: 'bg-red-100 text-red-700 border-red-200',
+  'no-response': 'bg-muted text-muted-foreground border-border',
+};
+
+export const getRsvp = (guest: Guest): RsvpStatus => guest.rsvp ?? 'invited';
+
+export const countByRsvp = (guests: Guest[]): Record<RsvpStatus, number> => {
+  const counts = Object.fromEntries(RSVP_STATUSES.map((s) => [s, 0])) as Record<RsvpStatus, number>;
+  guests.forEach((guest) => counts[getRsvp(guest)]++);
+  return counts;
+};
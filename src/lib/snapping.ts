@@ -0,0 +1,83 @@
+import type { Table } from '@/types';
+import { getTableBounds, type Bounds } from '@/lib/tableGeometry';
+
+// A line drawn while dragging where the moved table lines up with others, in canvas coordinates
+export interface SnapGuide {
+  axis: 'x' | 'y'; // 'x': vertical line at `position` on the x axis
+  position: number;
+  from: number;
+  to: number;
+}
+
+export interface SnapOptions {
+  gridSize: number;
+  snapToGrid: boolean;
+  threshold: number; // Canvas units; callers divide a screen distance by the zoom
+}
+
+export interface SnapResult {
+  x: number;
+  y: number;
+  guides: SnapGuide[];
+}
+
+// Left edge, centre and right edge (or top, centre, bottom)
+const anchors = (bounds: Bounds, axis: 'x' | 'y') =>
+  axis === 'x'
+    ? [bounds.minX, (bounds.minX + bounds.maxX) / 2, bounds.maxX]
+    : [bounds.minY, (bounds.minY + bounds.maxY) / 2, bounds.maxY];
+
+// Smallest shift that puts one of the moving anchors on an anchor of another table
+const findAlignment = (moving: Bounds, others: Bounds[], axis: 'x' | 'y', threshold: number) => {
+  let best: number | null = null;
+  for (const value of anchors(moving, axis)) {
+    for (const target of others.flatMap((other) => anchors(other, axis))) {
+      const delta = target - value;
+      if (Math.abs(delta) <= threshold && (best === null || Math.abs(delta) < Math.abs(best))) best = delta;
+    }
+  }
+  return best;
+};
+
+// Guides for every anchor that lines up after the shift, spanning the tables involved
+const collectGuides = (moving: Bounds, others: Bounds[], axis: 'x' | 'y'): SnapGuide[] => {
+  const guides = new Map<number, SnapGuide>();
+  const [crossMin, crossMax] = axis === 'x' ? ['minY', 'maxY'] as const : ['minX', 'maxX'] as const;
+
+  anchors(moving, axis).forEach((value) => {
+    others.forEach((other) => {
+      if (!anchors(other, axis).some((target) => Math.abs(target - value) < 0.5)) return;
+      const key = Math.round(value * 2) / 2;
+      const guide = guides.get(key) ?? { axis, position: value, from: moving[crossMin], to: moving[crossMax] };
+      guides.set(key, { ...guide, from: Math.min(guide.from, other[crossMin]), to: Math.max(guide.to, other[crossMax]) });
+    });
+  });
+  return [...guides.values()];
+};
+
+const snapToGridLine = (value: number, gridSize: number) => Math.round(value / gridSize) * gridSize;
+
+// Where a dragged table should land: aligned with a neighbour when one is close enough,
+// otherwise with its centre on the grid. Each axis snaps independently
+export const snapTablePosition = (table: Table, x: number, y: number, others: Table[], options: SnapOptions): SnapResult => {
+  const otherBounds = others.filter((t) => t.id !== table.id).map(getTableBounds);
+  const bounds = getTableBounds({ ...table, x, y });
+
+  const alignX = findAlignment(bounds, otherBounds, 'x', options.threshold);
+  const alignY = findAlignment(bounds, otherBounds, 'y', options.threshold);
+  const centerX = (bounds.minX + bounds.maxX) / 2;
+  const centerY = (bounds.minY + bounds.maxY) / 2;
+
+  const dx = alignX ?? (options.snapToGrid ? snapToGridLine(centerX, options.gridSize) - centerX : 0);
+  const dy = alignY ?? (options.snapToGrid ? snapToGridLine(centerY, options.gridSize) - centerY : 0);
+
+  const snapped = { minX: bounds.minX + dx, maxX: bounds.maxX + dx, minY: bounds.minY + dy, maxY: bounds.maxY + dy };
+  return {
+    x: x + dx,
+    y: y + dy,
+    guides: [
+      ...(alignX !== null ? collectGuides(snapped, otherBounds, 'x') : []),
+      ...(alignY !== null ? collectGuides(snapped, otherBounds, 'y') : []),
+    ],
+  };
+};
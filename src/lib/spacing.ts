@@ -0,0 +1,186 @@
+import type { Table } from '@/types';
+import {
+  TABLE_SEAT_OFFSET,
+  TABLE_SEAT_SIZE,
+  boundsIntersect,
+  getSeatPositions,
+  getSeatSize,
+  getTableBounds,
+  getTableFootprint,
+  rotateAround,
+  type Point,
+} from '@/lib/tableGeometry';
+
+export type SpacingIssueKind = 'overlap' | 'clearance';
+
+export interface SpacingIssue {
+  tableIds: [string, string];
+  kind: SpacingIssueKind;
+  gap: number; // Canvas units of free floor between the closest chairs; 0 when the tables overlap
+  from: Point; // Closest points of the two tables, in canvas coordinates
+  to: Point;
+}
+
+interface Circle {
+  kind: 'circle';
+  center: Point;
+  radius: number;
+}
+
+interface Polygon {
+  kind: 'polygon';
+  points: Point[];
+}
+
+type Shape = Circle | Polygon;
+
+interface Gap {
+  gap: number;
+  from: Point;
+  to: Point;
+}
+
+// Rounding noise of rotated shapes that only touch
+const TOLERANCE = 0.5;
+
+const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+const towards = (from: Point, to: Point, length: number): Point => {
+  const d = distance(from, to);
+  if (d === 0) return from;
+  return { x: from.x + ((to.x - from.x) / d) * length, y: from.y + ((to.y - from.y) / d) * length };
+};
+
+const closestOnSegment = (p: Point, a: Point, b: Point): Point => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return { x: a.x + t * dx, y: a.y + t * dy };
+};
+
+const edges = (points: Point[]): [Point, Point][] =>
+  points.map((point, i) => [point, points[(i + 1) % points.length]]);
+
+const isInsidePolygon = (p: Point, points: Point[]) =>
+  edges(points).reduce((inside, [a, b]) =>
+    (a.y > p.y) !== (b.y > p.y) && p.x < a.x + ((p.y - a.y) * (b.x - a.x)) / (b.y - a.y) ? !inside : inside, false);
+
+const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+const segmentsIntersect = ([a, b]: [Point, Point], [c, d]: [Point, Point]) =>
+  cross(a, b, c) * cross(a, b, d) < 0 && cross(c, d, a) * cross(c, d, b) < 0;
+
+const circleToCircle = (a: Circle, b: Circle): Gap => ({
+  gap: distance(a.center, b.center) - a.radius - b.radius,
+  from: towards(a.center, b.center, a.radius),
+  to: towards(b.center, a.center, b.radius),
+});
+
+const circleToPolygon = (circle: Circle, polygon: Polygon): Gap => {
+  if (isInsidePolygon(circle.center, polygon.points)) {
+    return { gap: -circle.radius, from: circle.center, to: circle.center };
+  }
+  const closest = edges(polygon.points)
+    .map(([a, b]) => closestOnSegment(circle.center, a, b))
+    .reduce((best, point) => (distance(circle.center, point) < distance(circle.center, best) ? point : best));
+  return {
+    gap: distance(circle.center, closest) - circle.radius,
+    from: towards(circle.center, closest, circle.radius),
+    to: closest,
+  };
+};
+
+const polygonToPolygon = (a: Polygon, b: Polygon): Gap => {
+  const cornerInside = a.points.find((p) => isInsidePolygon(p, b.points)) ?? b.points.find((p) => isInsidePolygon(p, a.points));
+  if (cornerInside) return { gap: -1, from: cornerInside, to: cornerInside };
+
+  const crossing = edges(a.points).find((edge) => edges(b.points).some((other) => segmentsIntersect(edge, other)));
+  if (crossing) return { gap: -1, from: crossing[0], to: crossing[0] };
+
+  // Without overlap the closest pair always involves a corner of one of the polygons
+  const candidates: Gap[] = [
+    ...a.points.flatMap((p) => edges(b.points).map(([c, d]) => {
+      const q = closestOnSegment(p, c, d);
+      return { gap: distance(p, q), from: p, to: q };
+    })),
+    ...b.points.flatMap((p) => edges(a.points).map(([c, d]) => {
+      const q = closestOnSegment(p, c, d);
+      return { gap: distance(p, q), from: q, to: p };
+    })),
+  ];
+  return candidates.reduce((best, candidate) => (candidate.gap < best.gap ? candidate : best));
+};
+
+const swap = ({ gap, from, to }: Gap): Gap => ({ gap, from: to, to: from });
+
+const getGap = (a: Shape, b: Shape): Gap => {
+  if (a.kind === 'circle') return b.kind === 'circle' ? circleToCircle(a, b) : circleToPolygon(a, b);
+  return b.kind === 'circle' ? swap(circleToPolygon(b, a)) : polygonToPolygon(a, b);
+};
+
+// Table top and chairs in canvas coordinates. Theater-style blocks are one solid area:
+// their chairs stand in rows inside it
+const getTableShapes = (table: Table): Shape[] => {
+  const { width, height } = getTableFootprint(table);
+  const center = { x: table.x + width / 2, y: table.y + height / 2 };
+  const toCanvas = (point: Point) => rotateAround({ x: table.x + point.x, y: table.y + point.y }, center, table.rotation);
+  const rect = (x: number, y: number, w: number, h: number): Polygon => ({
+    kind: 'polygon',
+    points: [{ x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }].map(toCanvas),
+  });
+
+  if (table.type === 'theater' || table.type === 'amphitheater') return [rect(0, 0, width, height)];
+
+  const inset = TABLE_SEAT_SIZE + TABLE_SEAT_OFFSET;
+  const top: Shape = table.type === 'round'
+    ? { kind: 'circle', center, radius: table.width / 2 }
+    : rect(inset, inset, table.width, table.type === 'rectangle' ? table.height : table.width);
+
+  const seatSize = getSeatSize(table);
+  const chairs = getSeatPositions(table).map((position): Circle => ({
+    kind: 'circle',
+    center: toCanvas({ x: position.x + seatSize / 2, y: position.y + seatSize / 2 }),
+    radius: seatSize / 2,
+  }));
+  return [top, ...chairs];
+};
+
+// Pairs of tables that overlap or leave less than `minClearance` to walk between their chairs
+export const findSpacingIssues = (tables: Table[], minClearance: number): SpacingIssue[] => {
+  const shapes = tables.map(getTableShapes);
+  const bounds = tables.map(getTableBounds);
+  const issues: SpacingIssue[] = [];
+
+  for (let i = 0; i < tables.length; i++) {
+    // Only neighbours closer than the clearance can break it
+    const reach = {
+      minX: bounds[i].minX - minClearance,
+      minY: bounds[i].minY - minClearance,
+      maxX: bounds[i].maxX + minClearance,
+      maxY: bounds[i].maxY + minClearance,
+    };
+
+    for (let j = i + 1; j < tables.length; j++) {
+      if (!boundsIntersect(reach, bounds[j])) continue;
+
+      let closest: Gap | null = null;
+      for (const a of shapes[i]) {
+        for (const b of shapes[j]) {
+          const gap = getGap(a, b);
+          if (!closest || gap.gap < closest.gap) closest = gap;
+        }
+      }
+      if (!closest || closest.gap >= minClearance - TOLERANCE) continue;
+
+      issues.push({
+        tableIds: [tables[i].id, tables[j].id],
+        kind: closest.gap < -TOLERANCE ? 'overlap' : 'clearance',
+        gap: Math.max(0, closest.gap),
+        from: closest.from,
+        to: closest.to,
+      });
+    }
+  }
+  return issues;
+};
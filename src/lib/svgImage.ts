@@ -0,0 +1,77 @@
+import { createImagePdf, type PdfImagePage } from '@/lib/pdf';
+
+// SVG markup drawn in millimetre user units, one printed page
+export interface SvgPage {
+  body: string;
+  widthMm: number;
+  heightMm: number;
+}
+
+export const svgDocument = (page: SvgPage) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" width="${page.widthMm}mm" height="${page.heightMm}mm" viewBox="0 0 ${page.widthMm} ${page.heightMm}">${page.body}</svg>`;
+
+// All pages one under another in a single drawing, for editing in a vector editor
+export const stackSvgPages = (pages: SvgPage[], gapMm = 10): SvgPage => {
+  let y = 0;
+  const body = pages.map((page) => {
+    const group = `<g transform="translate(0 ${y})"><rect width="${page.widthMm}" height="${page.heightMm}" fill="#fff" stroke="#ccc" stroke-width="0.2"/>${page.body}</g>`;
+    y += page.heightMm + gapMm;
+    return group;
+  }).join('');
+  return { body, widthMm: Math.max(0, ...pages.map((p) => p.widthMm)), heightMm: Math.max(0, y - gapMm) };
+};
+
+export const PRINT_DPI = 200;
+const MM_PER_INCH = 25.4;
+
+const loadSvgImage = (svg: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Не удалось отрисовать SVG'));
+    };
+    image.src = url;
+  });
+
+// Draw an SVG page on a white canvas at the given resolution
+export const renderSvgToCanvas = async (page: SvgPage, dpi = PRINT_DPI): Promise<HTMLCanvasElement> => {
+  const image = await loadSvgImage(svgDocument(page));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round((page.widthMm / MM_PER_INCH) * dpi);
+  canvas.height = Math.round((page.heightMm / MM_PER_INCH) * dpi);
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas недоступен');
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Не удалось создать изображение'))), type, quality);
+  });
+
+export const svgPagesToPdf = async (pages: SvgPage[], title: string, dpi = PRINT_DPI): Promise<Blob> => {
+  const pdfPages: PdfImagePage[] = [];
+  // One page at a time keeps only a single full-size canvas in memory
+  for (const page of pages) {
+    const canvas = await renderSvgToCanvas(page, dpi);
+    const jpeg = await canvasToBlob(canvas, 'image/jpeg', 0.92);
+    pdfPages.push({
+      jpeg: new Uint8Array(await jpeg.arrayBuffer()),
+      widthPx: canvas.width,
+      heightPx: canvas.height,
+      widthMm: page.widthMm,
+      heightMm: page.heightMm,
+    });
+  }
+  return createImagePdf(pdfPages, title);
+};
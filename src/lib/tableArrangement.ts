@@ -0,0 +1,83 @@
+import type { Table } from '@/types';
+import { getTableBounds, getTablesBounds, type Bounds } from '@/lib/tableGeometry';
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+export interface TablePosition {
+  id: string;
+  x: number;
+  y: number;
+}
+
+export const alignModeLabels: Record<AlignMode, string> = {
+  left: 'По левому краю',
+  center: 'По центру',
+  right: 'По правому краю',
+  top: 'По верхнему краю',
+  middle: 'По середине',
+  bottom: 'По нижнему краю',
+};
+
+export const distributeAxisLabels: Record<DistributeAxis, string> = {
+  horizontal: 'Распределить по горизонтали',
+  vertical: 'Распределить по вертикали',
+};
+
+// Distributing needs a table between the two that stay in place
+export const MIN_DISTRIBUTE_COUNT = 3;
+
+// The edge or centre of `bounds` that `mode` lines up
+const alignAnchor = (bounds: Bounds, mode: AlignMode) => {
+  switch (mode) {
+    case 'left': return bounds.minX;
+    case 'center': return (bounds.minX + bounds.maxX) / 2;
+    case 'right': return bounds.maxX;
+    case 'top': return bounds.minY;
+    case 'middle': return (bounds.minY + bounds.maxY) / 2;
+    case 'bottom': return bounds.maxY;
+  }
+};
+
+// Lines the tables up on an edge or centre of the box around all of them. Works on the
+// rotated footprint with seats, so what looks aligned on the canvas is aligned
+export const alignTables = (tables: Table[], mode: AlignMode): TablePosition[] => {
+  const selection = getTablesBounds(tables);
+  if (!selection) return [];
+
+  const target = alignAnchor(selection, mode);
+  const horizontal = mode === 'left' || mode === 'center' || mode === 'right';
+
+  return tables.map((table) => {
+    const shift = target - alignAnchor(getTableBounds(table), mode);
+    return horizontal
+      ? { id: table.id, x: table.x + shift, y: table.y }
+      : { id: table.id, x: table.x, y: table.y + shift };
+  });
+};
+
+// Equal gaps between neighbouring tables; the outermost two keep their place
+export const distributeTables = (tables: Table[], axis: DistributeAxis): TablePosition[] => {
+  if (tables.length < MIN_DISTRIBUTE_COUNT) return [];
+
+  const [min, max] = axis === 'horizontal' ? ['minX', 'maxX'] as const : ['minY', 'maxY'] as const;
+  const items = tables
+    .map((table) => ({ table, bounds: getTableBounds(table) }))
+    .sort((a, b) => (a.bounds[min] + a.bounds[max]) - (b.bounds[min] + b.bounds[max]));
+
+  const start = Math.min(...items.map(({ bounds }) => bounds[min]));
+  const end = Math.max(...items.map(({ bounds }) => bounds[max]));
+  const occupied = items.reduce((sum, { bounds }) => sum + bounds[max] - bounds[min], 0);
+  const gap = (end - start - occupied) / (items.length - 1);
+
+  const positions: TablePosition[] = [];
+  let cursor = start;
+  for (const { table, bounds } of items) {
+    const shift = cursor - bounds[min];
+    positions.push(axis === 'horizontal'
+      ? { id: table.id, x: table.x + shift, y: table.y }
+      : { id: table.id, x: table.x, y: table.y + shift });
+    cursor += bounds[max] - bounds[min] + gap;
+  }
+  return positions;
+};
@@ -0,0 +1,222 @@
+import type { Table, TableRow } from '@/types';
+
+// Seat and spacing constants shared by the table components
+export const TABLE_SEAT_SIZE = 36;
+export const TABLE_SEAT_OFFSET = 8;
+
+// Real-world size of the canvas: a round table 160 units across is a 160 cm table
+export const CANVAS_UNITS_PER_METER = 100;
+
+export const THEATER_LAYOUT = {
+  seatSize: 36,
+  rowSpacing: 36, // 3x increased for tooltips
+  seatSpacing: 24, // 3x increased for tooltips
+  headerHeight: 70,
+  paddingX: 24,
+  paddingY: 16,
+  minWidth: 180,
+};
+
+export const AMPHITHEATER_LAYOUT = {
+  seatSize: 32,
+  rowSpacing: 20,
+  arcRadiusStep: 35,
+  baseRadius: 80,
+  headerHeight: 50,
+  padding: 20,
+  minRowWidth: 200,
+};
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export const getAmphitheaterRows = (table: Table): TableRow[] =>
+  table.rowConfigs || Array(table.rows || 5).fill(null).map(() => ({ seatCount: table.seatsPerRow || 8 }));
+
+// Size of the table container on the canvas, seats included (before rotation)
+export const getTableFootprint = (table: Table): { width: number; height: number } => {
+  switch (table.type) {
+    case 'round': {
+      const size = table.width + TABLE_SEAT_SIZE * 2 + 32;
+      return { width: size, height: size };
+    }
+    case 'square': {
+      const size = table.width + TABLE_SEAT_SIZE * 2 + TABLE_SEAT_OFFSET * 2;
+      return { width: size, height: size };
+    }
+    case 'rectangle':
+      return {
+        width: table.width + TABLE_SEAT_SIZE * 2 + TABLE_SEAT_OFFSET * 2,
+        height: table.height + TABLE_SEAT_SIZE * 2 + TABLE_SEAT_OFFSET * 2,
+      };
+    case 'theater': {
+      const { seatSize, rowSpacing, seatSpacing, headerHeight, paddingX, paddingY, minWidth } = THEATER_LAYOUT;
+      const rows = table.rows || 5;
+      const seatsPerRow = table.seatsPerRow || 8;
+      const contentWidth = seatsPerRow * seatSize + (seatsPerRow - 1) * seatSpacing;
+      const contentHeight = rows * seatSize + (rows - 1) * rowSpacing;
+      return {
+        width: Math.max(contentWidth + paddingX * 2, minWidth),
+        height: headerHeight + contentHeight + paddingY * 2,
+      };
+    }
+    case 'amphitheater': {
+      const { seatSize, rowSpacing, arcRadiusStep, baseRadius, headerHeight, padding, minRowWidth } = AMPHITHEATER_LAYOUT;
+      const rows = getAmphitheaterRows(table);
+      const maxRowWidth = Math.max(...rows.map((_, i) => (baseRadius + i * arcRadiusStep) * 2 + seatSize), minRowWidth);
+      return {
+        width: maxRowWidth + padding * 2,
+        height: headerHeight + rows.length * (seatSize + rowSpacing * 2) + padding * 2 + baseRadius,
+      };
+    }
+    default:
+      return { width: table.width, height: table.height };
+  }
+};
+
+// Axis-aligned bounds of the table after rotation around its center
+export const getTableBounds = (table: Table): Bounds => {
+  const { width, height } = getTableFootprint(table);
+  const rad = (table.rotation * Math.PI) / 180;
+  const rotatedWidth = Math.abs(width * Math.cos(rad)) + Math.abs(height * Math.sin(rad));
+  const rotatedHeight = Math.abs(width * Math.sin(rad)) + Math.abs(height * Math.cos(rad));
+  const centerX = table.x + width / 2;
+  const centerY = table.y + height / 2;
+
+  return {
+    minX: centerX - rotatedWidth / 2,
+    minY: centerY - rotatedHeight / 2,
+    maxX: centerX + rotatedWidth / 2,
+    maxY: centerY + rotatedHeight / 2,
+  };
+};
+
+export const getTablesBounds = (tables: Table[]): Bounds | null => {
+  if (tables.length === 0) return null;
+
+  return tables.map(getTableBounds).reduce((acc, b) => ({
+    minX: Math.min(acc.minX, b.minX),
+    minY: Math.min(acc.minY, b.minY),
+    maxX: Math.max(acc.maxX, b.maxX),
+    maxY: Math.max(acc.maxY, b.maxY),
+  }));
+};
+
+export const boundsIntersect = (a: Bounds, b: Bounds): boolean =>
+  a.minX <= b.maxX && b.minX <= a.maxX && a.minY <= b.maxY && b.minY <= a.maxY;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export const rotateAround = (point: Point, center: Point, degrees: number): Point => {
+  const rad = (degrees * Math.PI) / 180;
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  return {
+    x: center.x + dx * Math.cos(rad) - dy * Math.sin(rad),
+    y: center.y + dx * Math.sin(rad) + dy * Math.cos(rad),
+  };
+};
+
+export const getSeatSize = (table: Table): number => {
+  if (table.type === 'theater') return THEATER_LAYOUT.seatSize;
+  if (table.type === 'amphitheater') return AMPHITHEATER_LAYOUT.seatSize;
+  return TABLE_SEAT_SIZE;
+};
+
+// Seats around the four sides (top, right, bottom, left) of a square or rectangular table
+const getSideSeatPositions = (
+  table: Table,
+  sideCounts: [number, number, number, number],
+  along: (side: number, length: number, sideIndex: number) => number
+): Point[] => {
+  const seatSize = TABLE_SEAT_SIZE;
+  const seatOffset = TABLE_SEAT_OFFSET;
+  const tableLeft = seatSize + seatOffset;
+  const tableTop = seatSize + seatOffset;
+  const tableRight = tableLeft + table.width;
+  const tableBottom = tableTop + (table.type === 'rectangle' ? table.height : table.width);
+  const height = tableBottom - tableTop;
+
+  return table.seats.map((_, index) => {
+    let side = 0;
+    let sideIndex = index;
+    while (side < 3 && sideIndex >= sideCounts[side]) {
+      sideIndex -= sideCounts[side];
+      side++;
+    }
+    switch (side) {
+      case 0: return { x: tableLeft + along(0, table.width, sideIndex) - seatSize / 2, y: tableTop - seatSize / 2 - seatOffset / 2 };
+      case 1: return { x: tableRight + seatOffset / 2 - seatSize / 2, y: tableTop + along(1, height, sideIndex) - seatSize / 2 };
+      case 2: return { x: tableRight - along(2, table.width, sideIndex) - seatSize / 2, y: tableBottom + seatOffset / 2 - seatSize / 2 };
+      default: return { x: tableLeft - seatSize / 2 - seatOffset / 2, y: tableBottom - along(3, height, sideIndex) - seatSize / 2 };
+    }
+  });
+};
+
+// Top-left corner of every seat inside the table container, before rotation
+export const getSeatPositions = (table: Table): Point[] => {
+  const total = table.seats.length;
+  switch (table.type) {
+    case 'round': {
+      const center = getTableFootprint(table).width / 2;
+      const seatRadius = table.width / 2 + TABLE_SEAT_SIZE / 2 + 8;
+      return table.seats.map((_, index) => {
+        const angle = (index / total) * 2 * Math.PI - Math.PI / 2;
+        return {
+          x: center + seatRadius * Math.cos(angle) - TABLE_SEAT_SIZE / 2,
+          y: center + seatRadius * Math.sin(angle) - TABLE_SEAT_SIZE / 2,
+        };
+      });
+    }
+    case 'square': {
+      const perSide = Math.ceil(total / 4);
+      return getSideSeatPositions(table, [perSide, perSide, perSide, perSide], (_, length, i) =>
+        (perSide > 1 ? length / (perSide + 1) : length / 2) * (i + 1)
+      );
+    }
+    case 'rectangle': {
+      const perimeter = 2 * (table.width + table.height);
+      const seatsOnLongSides = Math.round((table.width / perimeter) * total * 2);
+      const seatsTopBottom = Math.max(1, Math.floor(seatsOnLongSides / 2));
+      const seatsLeftRight = Math.max(1, Math.ceil((total - seatsOnLongSides) / 2));
+      return getSideSeatPositions(table, [seatsTopBottom, seatsLeftRight, seatsTopBottom, Infinity], (side, length, i) => {
+        const count = side % 2 === 0 ? seatsTopBottom : seatsLeftRight;
+        return (count > 1 ? length / count : length / 2) * (i + 0.5);
+      });
+    }
+    case 'theater': {
+      const { seatSize, rowSpacing, seatSpacing, headerHeight, paddingX, paddingY } = THEATER_LAYOUT;
+      const seatsPerRow = table.seatsPerRow || 8;
+      return table.seats.map((_, index) => ({
+        x: paddingX + (index % seatsPerRow) * (seatSize + seatSpacing),
+        y: headerHeight + paddingY + Math.floor(index / seatsPerRow) * (seatSize + rowSpacing),
+      }));
+    }
+    case 'amphitheater': {
+      const { seatSize, rowSpacing, arcRadiusStep, baseRadius, headerHeight, padding } = AMPHITHEATER_LAYOUT;
+      const centerX = getTableFootprint(table).width / 2;
+      const centerY = headerHeight + padding + baseRadius;
+      // Seats past the configured rows are not shown
+      return getAmphitheaterRows(table).flatMap((row, rowIndex) => {
+        const radius = baseRadius + rowIndex * arcRadiusStep;
+        const angleStep = Math.PI / (row.seatCount + 1);
+        return Array.from({ length: row.seatCount }, (_, seatInRow) => {
+          const angle = -Math.PI / 2 + (seatInRow + 1) * angleStep;
+          return {
+            x: centerX + radius * Math.cos(angle) - seatSize / 2,
+            y: centerY + radius * Math.sin(angle) * 0.4 - seatSize / 2 + rowIndex * (seatSize + rowSpacing * 2),
+          };
+        });
+      }).slice(0, total);
+    }
+    default:
+      return table.seats.map(() => ({ x: 0, y: 0 }));
+  }
+};
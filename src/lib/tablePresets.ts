@@ -0,0 +1,30 @@
+import type { LengthUnit, TableType } from '@/types';
+import { describeTableTop } from '@/lib/units';
+
+export interface TableSize {
+  width: number; // Canvas units (centimetres); a round table's diameter
+  height: number;
+  seats: number;
+}
+
+export interface TablePreset extends TableSize {
+  id: string;
+  type: TableType;
+}
+
+// Common banquet furniture, sized the way venues list it
+export const TABLE_PRESETS: TablePreset[] = [
+  { id: 'round-120', type: 'round', width: 120, height: 120, seats: 6 },
+  { id: 'round-150', type: 'round', width: 150, height: 150, seats: 8 },
+  { id: 'round-180', type: 'round', width: 180, height: 180, seats: 10 },
+  { id: 'round-200', type: 'round', width: 200, height: 200, seats: 12 },
+  { id: 'square-90', type: 'square', width: 90, height: 90, seats: 4 },
+  { id: 'square-140', type: 'square', width: 140, height: 140, seats: 8 },
+  { id: 'rectangle-180', type: 'rectangle', width: 180, height: 80, seats: 6 },
+  { id: 'rectangle-240', type: 'rectangle', width: 240, height: 90, seats: 10 },
+  { id: 'rectangle-300', type: 'rectangle', width: 300, height: 100, seats: 12 },
+];
+
+// "Ø 180 см, мест: 10"
+export const describeTablePreset = (preset: TablePreset, unit: LengthUnit) =>
+  `${describeTableTop(preset.type, preset.width, preset.height, unit)}, мест: ${preset.seats}`;
@@ -0,0 +1,63 @@
+import type { Guest, Table } from '@/types';
+import { describeDiet } from '@/lib/dietary';
+
+export interface TableReportSeat {
+  seatNumber: number; // 1-based
+  guestId?: string;
+  guestName?: string; // Missing for empty seats
+  diet: string;
+}
+
+export interface TableReport {
+  tableId: string;
+  tableName: string;
+  seats: TableReportSeat[];
+  occupied: number;
+  capacity: number;
+  emptySeats: number[]; // Seat numbers
+}
+
+// One guest list per table with seats in position order, in canvas order of the tables
+export const buildTableReports = (tables: Table[], guests: Guest[]): TableReport[] => {
+  const guestById = new Map(guests.map((g) => [g.id, g]));
+
+  return tables.map((table) => {
+    const seats = [...table.seats]
+      .sort((a, b) => a.position - b.position)
+      .map((seat): TableReportSeat => {
+        const guest = seat.guestId ? guestById.get(seat.guestId) : undefined;
+        return guest
+          ? { seatNumber: seat.position + 1, guestId: guest.id, guestName: guest.fullName, diet: describeDiet(guest) }
+          : { seatNumber: seat.position + 1, diet: '' };
+      });
+    const emptySeats = seats.filter((s) => !s.guestId).map((s) => s.seatNumber);
+
+    return {
+      tableId: table.id,
+      tableName: table.name,
+      seats,
+      occupied: seats.length - emptySeats.length,
+      capacity: seats.length,
+      emptySeats,
+    };
+  });
+};
+
+export const getReportTotals = (reports: TableReport[]) => ({
+  occupied: reports.reduce((sum, r) => sum + r.occupied, 0),
+  capacity: reports.reduce((sum, r) => sum + r.capacity, 0),
+});
+
+export const tableReportsToRows = (reports: TableReport[]): string[][] => {
+  const totals = getReportTotals(reports);
+  return [
+    ['Стол', 'Место', 'Гость', 'Питание'],
+    ...reports.flatMap((report) => report.seats.map((seat) => [
+      report.tableName,
+      String(seat.seatNumber),
+      seat.guestName ?? 'Свободно',
+      seat.diet,
+    ])),
+    ['Итого', '', `Занято ${totals.occupied} из ${totals.capacity}`, ''],
+  ];
+};
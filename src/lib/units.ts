@@ -0,0 +1,68 @@
+import type { LengthUnit, Table, TableType } from '@/types';
+import { CANVAS_UNITS_PER_METER, getTableFootprint } from '@/lib/tableGeometry';
+
+export const lengthUnitLabels: Record<LengthUnit, string> = {
+  cm: 'Сантиметры',
+  m: 'Метры',
+  ft: 'Футы',
+};
+
+const UNIT_SYMBOLS: Record<LengthUnit, string> = { cm: 'см', m: 'м', ft: 'ft' };
+
+// Canvas units in one unit of length
+const UNIT_SIZES: Record<LengthUnit, number> = {
+  cm: CANVAS_UNITS_PER_METER / 100,
+  m: CANVAS_UNITS_PER_METER,
+  ft: CANVAS_UNITS_PER_METER * 0.3048,
+};
+
+// Digits after the comma worth showing: whole centimetres, centimetres in metres, inches in feet
+const UNIT_DECIMALS: Record<LengthUnit, number> = { cm: 0, m: 2, ft: 1 };
+
+export const getUnitSymbol = (unit: LengthUnit) => UNIT_SYMBOLS[unit];
+
+export const getUnitStep = (unit: LengthUnit) => 10 ** -UNIT_DECIMALS[unit];
+
+export const toLengthUnit = (units: number, unit: LengthUnit) => {
+  const factor = 10 ** UNIT_DECIMALS[unit];
+  return Math.round((units / UNIT_SIZES[unit]) * factor) / factor;
+};
+
+export const fromLengthUnit = (value: number, unit: LengthUnit) => value * UNIT_SIZES[unit];
+
+const formatLengthValue = (units: number, unit: LengthUnit) =>
+  toLengthUnit(units, unit).toLocaleString('ru-RU', { maximumFractionDigits: UNIT_DECIMALS[unit] });
+
+// "180 см", "1,8 м", "5,9 ft"
+export const formatLength = (units: number, unit: LengthUnit) => `${formatLengthValue(units, unit)} ${UNIT_SYMBOLS[unit]}`;
+
+// "180 × 90 см"
+export const formatSize = (width: number, height: number, unit: LengthUnit) =>
+  `${formatLengthValue(width, unit)} × ${formatLengthValue(height, unit)} ${UNIT_SYMBOLS[unit]}`;
+
+// Accepts both "1,8" and "1.8"; null while the field holds something that is not a number yet
+export const parseLength = (text: string, unit: LengthUnit): number | null => {
+  const value = Number(text.trim().replace(',', '.'));
+  return text.trim() !== '' && Number.isFinite(value) ? fromLengthUnit(value, unit) : null;
+};
+
+// Size of a table top: "Ø 180 см" for a round one, width by depth otherwise
+export const describeTableTop = (type: TableType, width: number, height: number, unit: LengthUnit): string => {
+  switch (type) {
+    case 'round':
+      return `Ø ${formatLength(width, unit)}`;
+    case 'square':
+      return formatSize(width, width, unit);
+    default:
+      return formatSize(width, height, unit);
+  }
+};
+
+// Theater-style blocks have no top and give their whole area
+export const describeTableSize = (table: Table, unit: LengthUnit): string => {
+  if (table.type === 'theater' || table.type === 'amphitheater') {
+    const { width, height } = getTableFootprint(table);
+    return formatSize(width, height, unit);
+  }
+  return describeTableTop(table.type, table.width, table.height, unit);
+};
@@ -0,0 +1,89 @@
+import type { Table, VenueObject, VenueObjectType } from '@/types';
+import { getTablesBounds, type Bounds } from '@/lib/tableGeometry';
+
+export const venueObjectTypeLabels: Record<VenueObjectType, string> = {
+  stage: 'Сцена',
+  'dance-floor': 'Танцпол',
+  buffet: 'Фуршетная линия',
+  bar: 'Бар',
+  dj: 'Диджейский пульт',
+  entrance: 'Вход',
+  'emergency-exit': 'Запасный выход',
+  pillar: 'Колонна',
+  wall: 'Стена',
+  label: 'Надпись',
+};
+
+export const MIN_VENUE_OBJECT_SIZE = 10;
+
+// Size in canvas units (centimetres) and caption of a newly placed object
+export const VENUE_OBJECT_DEFAULTS: Record<VenueObjectType, { width: number; height: number; label: string }> = {
+  stage: { width: 600, height: 300, label: 'Сцена' },
+  'dance-floor': { width: 500, height: 500, label: 'Танцпол' },
+  buffet: { width: 400, height: 100, label: 'Фуршет' },
+  bar: { width: 300, height: 80, label: 'Бар' },
+  dj: { width: 200, height: 100, label: 'DJ' },
+  entrance: { width: 150, height: 30, label: 'Вход' },
+  'emergency-exit': { width: 120, height: 30, label: 'Запасный выход' },
+  pillar: { width: 60, height: 60, label: '' },
+  wall: { width: 500, height: 15, label: '' },
+  label: { width: 240, height: 50, label: 'Надпись' },
+};
+
+export interface VenueObjectStyle {
+  shape: 'rect' | 'ellipse' | 'text'; // 'text' has no outline, only the caption
+  fill: string;
+  stroke: string;
+  color: string; // Caption colour
+}
+
+// Shared by the canvas and the exported plan, so both look the same
+export const VENUE_OBJECT_STYLES: Record<VenueObjectType, VenueObjectStyle> = {
+  stage: { shape: 'rect', fill: '#ede9fe', stroke: '#8b5cf6', color: '#5b21b6' },
+  'dance-floor': { shape: 'rect', fill: '#fce7f3', stroke: '#ec4899', color: '#9d174d' },
+  buffet: { shape: 'rect', fill: '#fef3c7', stroke: '#f59e0b', color: '#92400e' },
+  bar: { shape: 'rect', fill: '#ffedd5', stroke: '#f97316', color: '#9a3412' },
+  dj: { shape: 'rect', fill: '#e0f2fe', stroke: '#0ea5e9', color: '#075985' },
+  entrance: { shape: 'rect', fill: '#dcfce7', stroke: '#22c55e', color: '#166534' },
+  'emergency-exit': { shape: 'rect', fill: '#fee2e2', stroke: '#ef4444', color: '#991b1b' },
+  pillar: { shape: 'ellipse', fill: '#d4d4d8', stroke: '#71717a', color: '#3f3f46' },
+  wall: { shape: 'rect', fill: '#52525b', stroke: '#3f3f46', color: '#ffffff' },
+  label: { shape: 'text', fill: 'none', stroke: 'none', color: '#111111' },
+};
+
+// A free label fills its box with text; other captions stay small enough to fit
+export const getVenueObjectFontSize = (object: VenueObject): number =>
+  object.type === 'label'
+    ? object.height * 0.6
+    : Math.max(10, Math.min(28, Math.min(object.width, object.height) * 0.3));
+
+// Axis-aligned box around the rotated object
+export const getVenueObjectBounds = (object: VenueObject): Bounds => {
+  const rad = (object.rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(rad));
+  const sin = Math.abs(Math.sin(rad));
+  const halfWidth = (object.width * cos + object.height * sin) / 2;
+  const halfHeight = (object.width * sin + object.height * cos) / 2;
+  const centerX = object.x + object.width / 2;
+  const centerY = object.y + object.height / 2;
+  return {
+    minX: centerX - halfWidth,
+    minY: centerY - halfHeight,
+    maxX: centerX + halfWidth,
+    maxY: centerY + halfHeight,
+  };
+};
+
+// Everything drawn on the plan: tables and venue objects
+export const getPlanContentBounds = (tables: Table[], venueObjects: VenueObject[]): Bounds | null => {
+  const boxes = [getTablesBounds(tables), ...venueObjects.map(getVenueObjectBounds)]
+    .filter((bounds): bounds is Bounds => bounds !== null);
+  if (boxes.length === 0) return null;
+
+  return boxes.reduce((acc, b) => ({
+    minX: Math.min(acc.minX, b.minX),
+    minY: Math.min(acc.minY, b.minY),
+    maxX: Math.max(acc.maxX, b.maxX),
+    maxY: Math.max(acc.maxY, b.maxY),
+  }));
+};
@@ -6,6 +6,57 @@ export interface Guest {
   lastName: string;
   middleName?: string;
   fullName: string;
+  prefix?: string; // Title before the name: "Dr.", "проф."
+  suffix?: string; // "Jr.", "III"
+  nameOrder?: NameOrder; // Surname-first when omitted
+  groupId?: string;
+  tags?: string[]; // Free-form labels: "VIP", "Сторона невесты", "Коллеги"...
+  categoryColor?: string; // CSS colour of the seat fill on the canvas
+  meal?: MealType; // Standard menu when omitted
+  dietary?: DietaryRestriction[];
+  dietaryNotes?: string; // Allergies and other wishes for the caterer
+  rsvp?: RsvpStatus; // "invited" when omitted
+  companionOf?: string; // Primary guest this +1 or child comes with
+  companionKind?: CompanionKind;
+  placeholder?: boolean; // Name is not known yet
+  phone?: string;
+  email?: string;
+  notes?: string; // Free-form notes for the organiser
+}
+
+// Surname-first: "Петров Иван Иванович"; given-first: "John Smith"
+export type NameOrder = 'surname-first' | 'given-first';
+
+// Plan setting for parsing typed and imported names; "auto" decides per name
+export type NameOrderSetting = NameOrder | 'auto';
+
+// How lengths are shown and typed; the plan itself is always stored in centimetres
+export type LengthUnit = 'cm' | 'm' | 'ft';
+
+export type CompanionKind = 'plus-one' | 'child';
+
+export type RsvpStatus = 'invited' | 'confirmed' | 'declined' | 'maybe' | 'no-response';
+
+export type MealType = 'standard' | 'vegetarian' | 'vegan' | 'halal' | 'child';
+
+export type DietaryRestriction = 'gluten-free' | 'lactose-free' | 'nut-free';
+
+export type GuestDiet = Pick<Guest, 'meal' | 'dietary' | 'dietaryNotes'>;
+
+// Optional guest fields that can be set when the guest is created
+export type GuestDetails = Partial<Omit<Guest, 'id' | 'firstName' | 'lastName' | 'middleName' | 'fullName'>>;
+
+// Editable guest fields; fullName is derived from the name parts
+export type GuestUpdate = Partial<Omit<Guest, 'id' | 'fullName'>>;
+
+export type GuestGroupKind = 'family' | 'couple' | 'party' | 'other';
+
+// Household, couple or party whose members should sit next to each other
+export interface GuestGroup {
+  id: string;
+  name: string;
+  kind: GuestGroupKind;
+  color: string; // CSS colour of the marker on seats
 }
 
 export interface Seat {
@@ -33,15 +84,82 @@ export interface Table {
   height: number;
 }
 
+export type VenueObjectType =
+  | 'stage'
+  | 'dance-floor'
+  | 'buffet'
+  | 'bar'
+  | 'dj'
+  | 'entrance'
+  | 'emergency-exit'
+  | 'pillar'
+  | 'wall'
+  | 'label';
+
+// Part of the room drawn on the plan: no seats, never in guest reports
+export interface VenueObject {
+  id: string;
+  type: VenueObjectType;
+  label: string; // Caption on the object; the text itself for a free label
+  x: number; // Top-left corner before rotation, canvas units
+  y: number;
+  width: number;
+  height: number;
+  rotation: number; // Degrees around the centre
+}
+
+export type VenueObjectUpdate = Partial<Omit<VenueObject, 'id' | 'type'>>;
+
+// Venue plan from the restaurant under the tables; locked, only moved and scaled from its dialog
+export interface BackgroundImage {
+  src: string; // data: URL, embedded so the plan file carries the image
+  x: number; // Top-left corner, canvas units
+  y: number;
+  width: number;
+  height: number;
+  opacity: number; // 0..1
+  visible: boolean;
+  calibrated: boolean; // Scale was set from a line of known length
+}
+
+export type SeatingConstraint =
+  | { id: string; type: 'together'; guestIds: string[] } // Seat at the same table
+  | { id: string; type: 'apart'; guestIds: [string, string] } // Never at the same table
+  | { id: string; type: 'pin'; guestId: string; tableId: string }; // Only at this table
+
+// Per-plan options that travel with the plan file
+export interface PlanSettings {
+  excludeDeclined: boolean; // Declined guests lose their seat and are skipped by auto-seating
+  nameOrder: NameOrderSetting;
+  gridSize: number; // Canvas units between grid lines
+  snapToGrid: boolean;
+  lengthUnit: LengthUnit;
+  minClearance: number; // Canvas units of free floor required between chairs of neighbouring tables
+}
+
+// What the plan is for; every event has its own tables and guests
+export interface EventDetails {
+  name: string;
+  date?: string; // YYYY-MM-DD
+  venue?: string;
+}
+
 export interface SeatingLayout {
+  event: EventDetails;
   tables: Table[];
+  venueObjects: VenueObject[];
+  backgroundImage: BackgroundImage | null;
   guests: Guest[];
   unassignedGuests: string[];
+  constraints: SeatingConstraint[];
+  groups: GuestGroup[];
+  settings: PlanSettings;
 }
 
 export interface DragItem {
-  type: 'guest' | 'seat-guest';
-  guestId: string;
+  type: 'guest' | 'seat-guest' | 'group';
+  guestId?: string;
+  groupId?: string;
   sourceTableId?: string;
   sourceSeatId?: string;
 }